@@ -5,10 +5,12 @@
  * @dependencies
  * - @supabase/supabase-js: Provides the `SupabaseClient` and `Session` types.
  * - $lib/types/supabase: Contains generated database types (assuming this path is correct).
+ * - $lib/api/apiClient: Provides the `ApiClient` type for the per-request client.
  */
 
 import type { SupabaseClient, Session } from '@supabase/supabase-js';
 import type { Database } from '$lib/types/supabase'; // Adjust path if needed
+import type { ApiClient } from '$lib/api/apiClient';
 
 declare global {
 	namespace App {
@@ -16,6 +18,8 @@ declare global {
 			message: string;
 			details?: string;
 			code?: string;
+			/** Correlation ID (`X-Request-ID`) of the failed request, shown so visitors can quote it. */
+			requestId?: string;
 		}
 
 		/**
@@ -27,6 +31,10 @@ declare global {
 			getSession(): Promise<Session | null>;
 			session: Session | null;
 			accessToken: string | null; // Keep this if backend API needs it
+			/** Per-request `ApiClient` that authenticates with this request's session. */
+			api: ApiClient;
+			/** Correlation ID of this request, accepted from or assigned to `X-Request-ID`. */
+			requestId: string;
 		}
 
 		/**
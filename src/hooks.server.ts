@@ -1,15 +1,62 @@
 /**
  * @file Server Hooks (hooks.server.ts)
  * @description This file manages internationalization (i18n) using Paraglide,
- * detecting the locale and setting the language context.
+ * detecting the locale and setting the language context. It also provides
+ * each request with its own session-aware `ApiClient` on `event.locals.api`. The visitor's Supabase
+ * session is read from the auth cookies the browser client writes and exposed on `event.locals`.
+ * With `MOCK_API=true`, `/api/v1` requests are answered by the in-process mock backend.
+ * Every request gets a correlation ID (`X-Request-ID`) shared by the logs, `ApiClient` calls,
+ * the response and error pages.
  *
  * @dependencies
- * - @sveltejs/kit: `Handle`.
+ * - @sveltejs/kit: `Handle`, `sequence`.
+ * - @supabase/ssr: Cookie-based server Supabase client.
  * - $lib/paraglide: Generated Paraglide i18n handle.
+ * - $lib/api/apiClient: Shared client the per-request client derives from.
+ * - $lib/server/apiAuth: Token provider reading the session from `event.locals`.
+ * - $lib/server/mockBackend: In-memory FastAPI stand-in for offline development.
+ * - $lib/server/requestContext: Per-request correlation ID storage.
+ * - $lib/server/logger: Structured logging of unhandled errors.
  */
 
-import type { Handle } from '@sveltejs/kit';
+import type { Handle, HandleServerError } from '@sveltejs/kit';
+import { sequence } from '@sveltejs/kit/hooks';
+import { createServerClient } from '@supabase/ssr';
 import { paraglideMiddleware } from '$lib/paraglide/server';
+import { apiClient, REQUEST_ID_HEADER } from '$lib/api/apiClient';
+import { createLocalsTokenProvider } from '$lib/server/apiAuth';
+import { handleMockApiRequest } from '$lib/server/mockBackend';
+import { getRequestId, resolveRequestId, runWithRequestContext } from '$lib/server/requestContext';
+import { logger } from '$lib/server/logger';
+import { env } from '$env/dynamic/private';
+import { env as publicEnv } from '$env/dynamic/public';
+
+// Server-side API calls forward the ID of the request that triggered them
+apiClient.setRequestIdProvider(getRequestId);
+
+/**
+ * @name requestIdHandle
+ * @description Accepts the caller's `X-Request-ID` (e.g. from the browser `ApiClient`) or assigns
+ * one, exposes it on `event.locals.requestId` and echoes it on the response.
+ * The rest of the chain runs inside the request context so every log entry carries it.
+ */
+const requestIdHandle: Handle = ({ event, resolve }) => {
+    const requestId = resolveRequestId(event.request.headers.get(REQUEST_ID_HEADER));
+    event.locals.requestId = requestId;
+
+    return runWithRequestContext(requestId, async () => {
+        const response = await resolve(event);
+        try {
+            response.headers.set(REQUEST_ID_HEADER, requestId);
+            return response;
+        } catch {
+            // Responses passed through from `fetch` have immutable headers
+            const copy = new Response(response.body, response);
+            copy.headers.set(REQUEST_ID_HEADER, requestId);
+            return copy;
+        }
+    });
+};
 
 /**
  * @name paraglideHandle
@@ -27,5 +74,76 @@ const paraglideHandle: Handle = ({ event, resolve }) =>
         });
     });
 
-// Export the handle for internationalization
-export const handle = paraglideHandle;
\ No newline at end of file
+/**
+ * @name supabaseHandle
+ * @description Creates a Supabase client bound to this request's auth cookies and exposes it with the
+ * visitor's session on `event.locals`. A refreshed session is written back to the cookies.
+ * The session is not re-validated with Supabase here: the backend verifies the access token it is sent.
+ */
+const supabaseHandle: Handle = async ({ event, resolve }) => {
+    event.locals.supabase = createServerClient(
+        publicEnv.PUBLIC_SUPABASE_URL ?? '',
+        publicEnv.PUBLIC_SUPABASE_ANON_KEY ?? '',
+        {
+            cookies: {
+                getAll: () => event.cookies.getAll(),
+                setAll: (cookiesToSet) => {
+                    for (const { name, value, options } of cookiesToSet) {
+                        event.cookies.set(name, value, { ...options, path: '/' });
+                    }
+                }
+            }
+        }
+    );
+
+    event.locals.getSession = async () => {
+        const { data, error } = await event.locals.supabase.auth.getSession();
+        return error ? null : data.session;
+    };
+    event.locals.session = await event.locals.getSession();
+    event.locals.accessToken = event.locals.session?.access_token ?? null;
+
+    return resolve(event, {
+        filterSerializedResponseHeaders: (name) => name === 'content-range' || name === 'x-supabase-api-version'
+    });
+};
+
+/**
+ * @name apiClientHandle
+ * @description Attaches a per-request `ApiClient` bound to this request's session.
+ * The shared `apiClient` stays anonymous on the server so no session leaks between requests.
+ */
+const apiClientHandle: Handle = ({ event, resolve }) => {
+    event.locals.api = apiClient.withAuth(createLocalsTokenProvider(event.locals));
+    return resolve(event);
+};
+
+/**
+ * @name mockApiHandle
+ * @description Serves `/api/v1` from the in-process mock backend when `MOCK_API=true`.
+ * Runs first so API calls skip i18n handling, both for browser requests and SSR `fetch`.
+ */
+const mockApiHandle: Handle = ({ event, resolve }) => {
+    if (env.MOCK_API === 'true' && event.url.pathname.startsWith('/api/v1/')) {
+        return handleMockApiRequest(event.request);
+    }
+    return resolve(event);
+};
+
+// Export the combined handle
+export const handle = sequence(requestIdHandle, mockApiHandle, supabaseHandle, apiClientHandle, paraglideHandle);
+
+/**
+ * @name handleError
+ * @description Logs unexpected errors with their correlation ID and passes the ID to the error
+ * page, so visitors can quote it to staff.
+ */
+export const handleError: HandleServerError = ({ error, event, status, message }) => {
+    logger.error('Unhandled server error', {
+        status,
+        path: event.url.pathname,
+        error: error instanceof Error ? { name: error.name, message: error.message, stack: error.stack } : error
+    });
+
+    return { message, requestId: event.locals.requestId };
+};
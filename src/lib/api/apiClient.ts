@@ -6,14 +6,43 @@
  * - SvelteKit's fetch: For server-side and client-side HTTP requests.
  * - TypeScript: For strong typing of API responses and requests.
  * - $lib/schemas/payment: For payment-related request payloads.
+ * - zod: For runtime validation of every response against the schemas declared next to each interface.
+ * - ./responseCache: Stale-while-revalidate cache for public catalogue GETs.
+ * - ./fallbacks: Offline fallbacks and the degraded-response marker.
  *
  * @notes
  * - Added `MerchandiseImage` interface and updated `Merchandise` interface to include an `images` array.
- * - Handles authentication for admin endpoints.
+ * - Handles authentication through an `AuthTokenProvider`: the bearer token is attached automatically
+ *   and a 401 triggers one token refresh and retry. Use `withAuth` to get a session-bound client.
  * - Provides centralized error handling and response validation.
  * - Error handling: Throws custom `ApiError` and `NetworkError` for robust error management in components.
+ * - Transient failures (502/503/504, 429 and `NetworkError`) are retried with exponential backoff and jitter.
+ *   GETs retry by default; mutating calls only retry when they carry an `Idempotency-Key`.
+ * - Responses that do not match their schema throw `ResponseValidationError` instead of being cast blindly.
+ * - Ticket types, time slots and merchandise are cached per endpoint TTL and identical in-flight GETs are shared.
+ *   Only anonymous catalogue data is cached, so the shared server instance cannot leak user data across requests.
+ * - Methods with a registered fallback serve last-known-good or static data on `NetworkError`,
+ *   marked as degraded (see `getConnectionState` in ./fallbacks).
+ * - Every method accepts an `AbortSignal` (`callOptions.signal`); cancelled calls reject with
+ *   `RequestAbortedError` and are never retried or answered from an offline fallback.
+ * - Every request carries an `X-Request-ID`: the current SvelteKit request's ID on the server
+ *   (see `setRequestIdProvider`), a fresh one per call in the browser. Errors keep it in `requestId`.
  */
-import type { OrderCreatePayload } from "$lib/schemas/payment";
+import { z } from 'zod';
+import type { BookingCreate, OrderCreatePayload, SeatHoldCreate } from "$lib/schemas/payment";
+import { ResponseCache, type CachePolicy } from './responseCache';
+import { markDegraded, registerDefaultFallbacks } from './fallbacks';
+
+/**
+ * Accepts a missing or `null` field (FastAPI serializes unset optionals as `null`)
+ * and normalizes it to `undefined` so it matches the optional interface properties.
+ */
+function optional<T extends z.ZodTypeAny>(schema: T) {
+    return schema.nullish().transform((value) => value ?? undefined);
+}
+
+/** Shorthand for a schema whose output is exactly the given interface. */
+type Schema<T> = z.ZodType<T, z.ZodTypeDef, unknown>;
 
 // Types based on backend schema structure
 export interface Language {
@@ -22,6 +51,12 @@ export interface Language {
     is_default: boolean;
 }
 
+export const languageSchema: Schema<Language> = z.object({
+    code: z.string(),
+    name: z.string(),
+    is_default: z.boolean()
+});
+
 export interface PageContent {
     id: string;
     slug: string;
@@ -32,6 +67,16 @@ export interface PageContent {
     updated_at: string;
 }
 
+export const pageContentSchema: Schema<PageContent> = z.object({
+    id: z.string(),
+    slug: z.string(),
+    language_code: z.string(),
+    title: z.string(),
+    content: z.string(),
+    created_at: z.string(),
+    updated_at: z.string()
+});
+
 export interface PageContentCreate {
     slug: string;
     language_code: string;
@@ -61,16 +106,121 @@ export interface User {
     updated_at: string;
 }
 
+export const userSchema: Schema<User> = z.object({
+    id: z.string(),
+    email: z.string(),
+    name: optional(z.string()),
+    role: z.enum(['Administrator', 'Staff']),
+    profile_image_path: optional(z.string()),
+    created_at: z.string(),
+    updated_at: z.string()
+});
+
 export interface TicketType {
     id: string;
     name_translations: Record<string, string>;
     description_translations?: Record<string, string>;
     price: number;
+    /** Largest group one ticket admits. Types with a `group_size` above 1 are booked as group visits. */
     group_size?: number;
+    /** Smallest group accepted for a group visit. */
+    min_group_size?: number;
+    /** Visitors the type is for (`adult`, `child`, …), matched by pricing rules' `age_categories`. */
+    age_category?: string;
     created_at: string;
     updated_at: string;
 }
 
+export const ticketTypeSchema: Schema<TicketType> = z.object({
+    id: z.string(),
+    name_translations: z.record(z.string()),
+    description_translations: optional(z.record(z.string())),
+    price: z.coerce.number(),
+    group_size: optional(z.number().int()),
+    min_group_size: optional(z.number().int()),
+    age_category: optional(z.string()),
+    created_at: z.string(),
+    updated_at: z.string()
+});
+
+/**
+ * A change to ticket prices for some visit days or visitors, applied by `priceTicket` (see
+ * `utils/pricing.ts`). Conditions left out match everything; all conditions given must match.
+ */
+export interface PricingRule {
+    id: string;
+    name_translations: Record<string, string>;
+    /**
+     * `percent` changes the price reached so far by `value` percent, `amount` by `value` euros per ticket
+     * (negative values are reductions). `free` waives the price and overrides every other rule.
+     */
+    adjustment: 'percent' | 'amount' | 'free';
+    value?: number;
+    ticket_type_ids?: string[];
+    age_categories?: string[];
+    /** First and last visit day of a season, as `MM-DD`. A `season_from` after `season_to` spans the new year. */
+    season_from?: string;
+    season_to?: string;
+    /** Days of the week, 0 for Sunday. */
+    weekdays?: number[];
+    /** Week of the month, 1 for days 1-7: with `weekdays: [0]`, 1 is the first Sunday. */
+    week_of_month?: number;
+}
+
+export const pricingRuleSchema: Schema<PricingRule> = z.object({
+    id: z.string(),
+    name_translations: z.record(z.string()),
+    adjustment: z.enum(['percent', 'amount', 'free']),
+    value: optional(z.coerce.number()),
+    ticket_type_ids: optional(z.array(z.string())),
+    age_categories: optional(z.array(z.string())),
+    season_from: optional(z.string().regex(/^\d{2}-\d{2}$/)),
+    season_to: optional(z.string().regex(/^\d{2}-\d{2}$/)),
+    weekdays: optional(z.array(z.number().int().min(0).max(6))),
+    week_of_month: optional(z.number().int().min(1).max(5))
+});
+
+/**
+ * A departure from the museum's weekly schedule, read with `openingOf` (see `utils/openingCalendar.ts`):
+ * a holiday it closes on, or a special opening such as a summer evening.
+ */
+export interface OpeningException {
+    id: string;
+    kind: 'closed' | 'special';
+    name_translations: Record<string, string>;
+    /** First and last day, as `YYYY-MM-DD`. One-day exceptions leave out `date_to`. */
+    date_from: string;
+    date_to?: string;
+    /** Days of the week within the range, 0 for Sunday; every day when left out. */
+    weekdays?: number[];
+    /** Hours of a special opening, as `HH:MM` on the museum's clock. */
+    opens_at?: string;
+    closes_at?: string;
+}
+
+export const openingExceptionSchema: Schema<OpeningException> = z.object({
+    id: z.string(),
+    kind: z.enum(['closed', 'special']),
+    name_translations: z.record(z.string()),
+    date_from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+    date_to: optional(z.string().regex(/^\d{4}-\d{2}-\d{2}$/)),
+    weekdays: optional(z.array(z.number().int().min(0).max(6))),
+    opens_at: optional(z.string().regex(/^\d{2}:\d{2}$/)),
+    closes_at: optional(z.string().regex(/^\d{2}:\d{2}$/))
+});
+
+/** The museum's opening days: its weekly closing days and the exceptions to them. */
+export interface OpeningCalendar {
+    /** Days of the week the museum is closed, 0 for Sunday. */
+    closed_weekdays: number[];
+    exceptions: OpeningException[];
+}
+
+export const openingCalendarSchema: Schema<OpeningCalendar> = z.object({
+    closed_weekdays: z.array(z.number().int().min(0).max(6)),
+    exceptions: z.array(openingExceptionSchema)
+});
+
 export interface TimeSlot {
     id: string;
     ticket_type_id: string;
@@ -82,6 +232,45 @@ export interface TimeSlot {
     updated_at: string;
 }
 
+export const timeSlotSchema: Schema<TimeSlot> = z.object({
+    id: z.string(),
+    ticket_type_id: z.string(),
+    start_time: z.string(),
+    end_time: z.string(),
+    capacity: z.number().int(),
+    available_slots: z.number().int(),
+    created_at: z.string(),
+    updated_at: z.string()
+});
+
+/** Aggregated capacity of one calendar day, as returned by the availability range endpoint. */
+export interface DateAvailability {
+    date: string;
+    slot_count: number;
+    capacity: number;
+    available_slots: number;
+}
+
+export const dateAvailabilitySchema: Schema<DateAvailability> = z.object({
+    date: z.string(),
+    slot_count: z.number().int(),
+    capacity: z.number().int(),
+    available_slots: z.number().int()
+});
+
+/** Current capacity of one day's time slots, as pushed by the `/api/availability/stream` endpoint. */
+export interface AvailabilityUpdate {
+    ticket_type_id: string;
+    date: string;
+    time_slots: TimeSlot[];
+}
+
+export const availabilityUpdateSchema: Schema<AvailabilityUpdate> = z.object({
+    ticket_type_id: z.string(),
+    date: z.string(),
+    time_slots: z.array(timeSlotSchema)
+});
+
 /** Represents a single image associated with a merchandise item. */
 export interface MerchandiseImage {
     id: string;
@@ -90,6 +279,13 @@ export interface MerchandiseImage {
     created_at: string;
 }
 
+export const merchandiseImageSchema: Schema<MerchandiseImage> = z.object({
+    id: z.string(),
+    image_path: z.string(),
+    is_primary: z.boolean(),
+    created_at: z.string()
+});
+
 export interface Merchandise {
     id: string;
     name_translations: Record<string, string>;
@@ -101,6 +297,53 @@ export interface Merchandise {
     images: MerchandiseImage[];
 }
 
+export const merchandiseSchema: Schema<Merchandise> = z.object({
+    id: z.string(),
+    name_translations: z.record(z.string()),
+    description_translations: optional(z.record(z.string())),
+    price: z.coerce.number(),
+    inventory: z.number().int(),
+    created_at: z.string(),
+    updated_at: z.string(),
+    images: z.array(merchandiseImageSchema)
+});
+
+/** One ticket type within a booking, priced when the booking was made. */
+export interface BookingLineItem {
+    ticket_type_id: string;
+    quantity: number;
+    unit_price: number;
+}
+
+export const bookingLineItemSchema: Schema<BookingLineItem> = z.object({
+    ticket_type_id: z.string(),
+    quantity: z.number().int(),
+    unit_price: z.coerce.number()
+});
+
+/** Organiser details of a group visit. */
+export interface GroupBooking {
+    participants: number;
+    organisation: string;
+    phone: string;
+    accessibility_needs?: string;
+    guide_language: string;
+    payment_method: 'CARD' | 'INVOICE';
+    invoice_tax_id?: string;
+    invoice_address?: string;
+}
+
+export const groupBookingSchema: Schema<GroupBooking> = z.object({
+    participants: z.number().int(),
+    organisation: z.string(),
+    phone: z.string(),
+    accessibility_needs: optional(z.string()),
+    guide_language: z.string(),
+    payment_method: z.enum(['CARD', 'INVOICE']),
+    invoice_tax_id: optional(z.string()),
+    invoice_address: optional(z.string())
+});
+
 export interface Booking {
     id: string;
     user_id?: string;
@@ -108,16 +351,85 @@ export interface Booking {
     customer_email?: string;
     booking_date: string;
     time_slot_id: string;
-    ticket_type_id: string;
+    line_items: BookingLineItem[];
+    /** Places taken in the slot: the combined quantity of all line items, or the participants of a group. */
     quantity: number;
     total_price: number;
+    /** Group bookings stay PENDING until staff confirm them, even once paid. */
     status: 'PENDING' | 'CONFIRMED' | 'CANCELLED' | 'COMPLETED';
+    group?: GroupBooking;
     order_id?: string;
     source: 'ONLINE' | 'ONSITE';
+    /** When staff checked the visitor in at the entrance; the booking is COMPLETED from then on. */
+    checked_in_at?: string;
     created_at: string;
     updated_at: string;
 }
 
+export const bookingSchema: Schema<Booking> = z.object({
+    id: z.string(),
+    user_id: optional(z.string()),
+    customer_name: optional(z.string()),
+    customer_email: optional(z.string()),
+    booking_date: z.string(),
+    time_slot_id: z.string(),
+    line_items: z.array(bookingLineItemSchema),
+    quantity: z.number().int(),
+    total_price: z.coerce.number(),
+    status: z.enum(['PENDING', 'CONFIRMED', 'CANCELLED', 'COMPLETED']),
+    group: optional(groupBookingSchema),
+    order_id: optional(z.string()),
+    source: z.enum(['ONLINE', 'ONSITE']),
+    checked_in_at: optional(z.string()),
+    created_at: z.string(),
+    updated_at: z.string()
+});
+
+/** Places reserved in a time slot until `expires_at`; released automatically when it passes. */
+export interface SeatHold {
+    id: string;
+    time_slot_id: string;
+    /** Places held: the combined quantity of the line items, or the participants of a group. */
+    quantity: number;
+    expires_at: string;
+    created_at: string;
+}
+
+export const seatHoldSchema: Schema<SeatHold> = z.object({
+    id: z.string(),
+    time_slot_id: z.string(),
+    quantity: z.number().int(),
+    expires_at: z.string(),
+    created_at: z.string()
+});
+
+/** A gift voucher bought in the shop, spent on one or more later orders (see `utils/giftVouchers.ts`). */
+export interface GiftVoucher {
+    code: string;
+    initial_amount: number;
+    /** What is left to spend. */
+    balance: number;
+    recipient_name: string;
+    sender_name?: string;
+    message?: string;
+    /** Day the voucher is emailed to the recipient, as `YYYY-MM-DD` on the museum's clock. */
+    delivery_date: string;
+    expires_at: string;
+    created_at: string;
+}
+
+export const giftVoucherSchema: Schema<GiftVoucher> = z.object({
+    code: z.string(),
+    initial_amount: z.coerce.number(),
+    balance: z.coerce.number(),
+    recipient_name: z.string(),
+    sender_name: optional(z.string()),
+    message: optional(z.string()),
+    delivery_date: z.string(),
+    expires_at: z.string(),
+    created_at: z.string()
+});
+
 export interface Order {
     id: string;
     user_id?: string;
@@ -127,17 +439,84 @@ export interface Order {
     total_amount: number;
     payment_status: 'PENDING' | 'PAID' | 'FAILED' | 'REFUNDED';
     payment_intent_id?: string;
+    /** The booking paid for by this order, if it included one. */
+    booking_id?: string;
+    /** Promo code applied to the order, and what it took off `total_amount`. */
+    promo_code?: string;
+    discount_amount?: number;
+    /** Gift voucher redeemed on the order, and how much of its balance was spent. */
+    gift_voucher_code?: string;
+    gift_voucher_amount?: number;
+    /** Gift vouchers bought with the order. */
+    gift_vouchers?: GiftVoucher[];
+    /** Language the buyer checked out in, for the emails sent once the order is paid. */
+    language?: string;
     source: 'ONLINE' | 'ONSITE';
     created_at: string;
     updated_at: string;
 }
 
+export const orderSchema: Schema<Order> = z.object({
+    id: z.string(),
+    user_id: optional(z.string()),
+    customer_name: optional(z.string()),
+    customer_email: optional(z.string()),
+    order_date: z.string(),
+    total_amount: z.coerce.number(),
+    payment_status: z.enum(['PENDING', 'PAID', 'FAILED', 'REFUNDED']),
+    payment_intent_id: optional(z.string()),
+    booking_id: optional(z.string()),
+    promo_code: optional(z.string()),
+    discount_amount: optional(z.coerce.number()),
+    gift_voucher_code: optional(z.string()),
+    gift_voucher_amount: optional(z.coerce.number()),
+    gift_vouchers: optional(z.array(giftVoucherSchema)),
+    language: optional(z.string()),
+    source: z.enum(['ONLINE', 'ONSITE']),
+    created_at: z.string(),
+    updated_at: z.string()
+});
+
+/** A promo code the backend accepted, with the discount it gives (see `utils/promoCodes.ts`). */
+export interface PromoCode {
+    code: string;
+    /** `percent` takes `value` percent off the part of the order it applies to, `amount` takes `value` euros. */
+    discount_type: 'percent' | 'amount';
+    value: number;
+    applies_to: 'tickets' | 'merchandise' | 'all';
+    expires_at?: string;
+    /** Orders the code can still be used on; absent for codes without a limit. */
+    uses_remaining?: number;
+}
+
+export const promoCodeSchema: Schema<PromoCode> = z.object({
+    code: z.string(),
+    discount_type: z.enum(['percent', 'amount']),
+    value: z.coerce.number(),
+    applies_to: z.enum(['tickets', 'merchandise', 'all']),
+    expires_at: optional(z.string()),
+    uses_remaining: optional(z.number().int())
+});
+
+/** Generic `{ message }` acknowledgement returned by form-style endpoints. */
+export const messageResponseSchema = z.object({ message: z.string() });
+
+export const paymentIntentResponseSchema = z.object({ client_secret: z.string() });
+
+export const giftVoucherPaymentResponseSchema = z.object({ payment_intent_id: z.string() });
+
+export const healthResponseSchema = z.object({ status: z.string() });
+
 // Error types for better error handling
 export class ApiError extends Error {
+    /** `X-Request-ID` of the failed call. */
+    requestId?: string;
+
     constructor(
         public status: number,
         public detail: string,
-        public endpoint: string
+        public endpoint: string,
+        public retryAfterMs?: number
     ) {
         super(`API Error ${status}: ${detail}`);
         this.name = 'ApiError';
@@ -145,18 +524,176 @@ export class ApiError extends Error {
 }
 
 export class NetworkError extends Error {
+    /** `X-Request-ID` of the failed call. */
+    requestId?: string;
+
     constructor(public endpoint: string, public originalError: Error) {
         super(`Network error calling ${endpoint}: ${originalError.message}`);
         this.name = 'NetworkError';
     }
 }
 
+/** Thrown when the caller cancels a call through `callOptions.signal`. */
+export class RequestAbortedError extends Error {
+    constructor(public endpoint?: string) {
+        super(endpoint ? `Request to ${endpoint} was cancelled` : 'Request was cancelled');
+        this.name = 'RequestAbortedError';
+    }
+}
+
+/** Thrown when a successful response does not match the schema expected for its endpoint. */
+export class ResponseValidationError extends Error {
+    /** `X-Request-ID` of the failed call. */
+    requestId?: string;
+
+    constructor(
+        public endpoint: string,
+        public path: string,
+        public issues: z.ZodIssue[]
+    ) {
+        super(`Invalid response from ${endpoint} at ${path}: ${issues[0]?.message ?? 'unknown issue'}`);
+        this.name = 'ResponseValidationError';
+    }
+}
+
+/** Header carrying the correlation ID shared by SvelteKit, `ApiClient` and the backend logs. */
+export const REQUEST_ID_HEADER = 'X-Request-ID';
+
+/**
+ * Set by the SvelteKit API proxy when it cannot reach the backend, so the failure is
+ * reported as a `NetworkError` like a direct connection failure would be.
+ */
+export const UPSTREAM_UNREACHABLE_HEADER = 'X-Upstream-Unreachable';
+
+/** Returns the correlation ID of the request being handled, if any. */
+export type RequestIdProvider = () => string | undefined;
+
+/**
+ * Supplies the bearer token for authenticated requests.
+ * Implementations: `sessionTokenProvider` (browser, `sessionStore`) and
+ * `createLocalsTokenProvider` (server, `event.locals`).
+ */
+export interface AuthTokenProvider {
+    /** Returns the current access token, or null for anonymous requests. */
+    getAccessToken(): Promise<string | null>;
+    /** Refreshes the session after a 401 and returns the new token, or null if that is impossible. */
+    refreshAccessToken?(): Promise<string | null>;
+}
+
+/** Controls how transient failures are retried. */
+export interface RetryPolicy {
+    /** Number of retries after the first attempt (0 disables retrying). */
+    retries: number;
+    /** Base delay in ms for the exponential backoff. */
+    baseDelayMs: number;
+    /** Upper bound in ms for a single backoff delay, including `Retry-After`. */
+    maxDelayMs: number;
+    /** HTTP status codes that are considered transient. */
+    retryOnStatus: number[];
+    /** Whether non-GET requests without an `Idempotency-Key` may be retried. */
+    retryUnsafeMethods: boolean;
+}
+
+/** Per-call options accepted by every `ApiClient` method. */
+export interface ApiCallOptions {
+    /** Overrides the client's retry policy for this call, or `false` to disable retrying. */
+    retry?: Partial<RetryPolicy> | false;
+    /** Idempotency key sent with mutating requests; generated automatically when omitted. */
+    idempotencyKey?: string;
+    /** Bypasses any cached value and waits for a fresh response (cacheable endpoints only). */
+    forceRefresh?: boolean;
+    /**
+     * Cancels the call. For cached endpoints only this caller stops waiting: the shared
+     * request keeps running for other callers and still fills the cache.
+     */
+    signal?: AbortSignal;
+}
+
+/** Endpoints whose responses are served from the response cache. */
+export type CacheableEndpoint =
+    | 'ticketTypes'
+    | 'pricingRules'
+    | 'openingCalendar'
+    | 'timeSlots'
+    | 'availability'
+    | 'merchandise'
+    | 'merchandiseItem';
+
+const DEFAULT_CACHE_POLICIES: Record<CacheableEndpoint, CachePolicy> = {
+    ticketTypes: { ttlMs: 5 * 60_000, staleMs: 30 * 60_000 },
+    pricingRules: { ttlMs: 5 * 60_000, staleMs: 30 * 60_000 },
+    openingCalendar: { ttlMs: 5 * 60_000, staleMs: 30 * 60_000 },
+    timeSlots: { ttlMs: 15_000, staleMs: 45_000 },
+    availability: { ttlMs: 30_000, staleMs: 90_000 },
+    merchandise: { ttlMs: 60_000, staleMs: 10 * 60_000 },
+    merchandiseItem: { ttlMs: 60_000, staleMs: 10 * 60_000 }
+};
+
+/**
+ * Builders for response cache keys. Keys are path-like so related entries
+ * can be invalidated together by prefix (e.g. every slot of one date).
+ */
+export const cacheKeys = {
+    ticketTypes: () => 'tickets/types',
+    pricingRules: () => 'tickets/pricing-rules',
+    openingCalendar: () => 'tickets/opening-calendar',
+    timeSlotsForDate: (date: string) => `tickets/time-slots/${date}/`,
+    timeSlots: (ticketTypeId: string, date: string) => `tickets/time-slots/${date}/${ticketTypeId}`,
+    allTimeSlots: () => 'tickets/time-slots/',
+    availability: (ticketTypeId: string, from: string, to: string) =>
+        `tickets/availability/${ticketTypeId}/${from}/${to}`,
+    allAvailability: () => 'tickets/availability/',
+    merchandise: () => 'merchandise',
+    merchandiseItem: (merchandiseId: string) => `merchandise/${merchandiseId}`
+};
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    retries: 2,
+    baseDelayMs: 300,
+    maxDelayMs: 5000,
+    retryOnStatus: [429, 502, 503, 504],
+    retryUnsafeMethods: false
+};
+
+/** Methods that support an offline fallback, with their arguments and results. */
+interface FallbackSignatures {
+    getTicketTypes: { args: []; result: TicketType[] };
+    getPricingRules: { args: []; result: PricingRule[] };
+    getOpeningCalendar: { args: []; result: OpeningCalendar };
+    getPageContent: { args: [slug: string, langCode: string]; result: PageContent };
+    getMerchandise: { args: []; result: Merchandise[] };
+    getMerchandiseItem: { args: [merchandiseId: string]; result: Merchandise };
+}
+
+export type FallbackableMethod = keyof FallbackSignatures;
+
+/**
+ * Supplies static data for a method when the backend is unreachable.
+ * Returning undefined means "no fallback for these arguments" and rethrows the `NetworkError`.
+ */
+export type FallbackProvider<M extends FallbackableMethod> = (
+    ...args: FallbackSignatures[M]['args']
+) => FallbackSignatures[M]['result'] | undefined | Promise<FallbackSignatures[M]['result'] | undefined>;
+
+type FallbackRegistry = { [M in FallbackableMethod]?: FallbackProvider<M> };
+
 // API Client configuration
 interface ApiClientConfig {
     baseUrl?: string;
     timeout?: number;
     defaultHeaders?: Record<string, string>;
     debug?: boolean;
+    retry?: Partial<RetryPolicy>;
+    /** Set to false to disable the response cache entirely. */
+    cache?: boolean;
+    cachePolicies?: Partial<Record<CacheableEndpoint, CachePolicy>>;
+    auth?: AuthTokenProvider;
+    requestId?: RequestIdProvider;
+}
+
+/** Internal request options; `anonymous` requests never carry the bearer token. */
+interface RequestOptions extends RequestInit {
+    anonymous?: boolean;
 }
 
 // Main API Client class
@@ -165,12 +702,27 @@ export class ApiClient {
     private timeout: number;
     private defaultHeaders: Record<string, string>;
     private debug: boolean;
+    private retryPolicy: RetryPolicy;
+    private cacheEnabled: boolean;
+    private cachePolicies: Record<CacheableEndpoint, CachePolicy>;
+    private cache = new ResponseCache();
+    private fallbacks: FallbackRegistry = {};
+    private lastKnownGood = new Map<string, unknown>();
+    private auth: AuthTokenProvider | null;
+    private requestIdProvider: RequestIdProvider | null;
+    private config: ApiClientConfig;
 
     constructor(config: ApiClientConfig = {}) {
+        this.config = config;
         // Use relative URLs for SvelteKit proxy - this is crucial
         this.baseUrl = config.baseUrl || '/api/v1';
         this.timeout = config.timeout || 30000;
         this.debug = config.debug || false;
+        this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...config.retry };
+        this.cacheEnabled = config.cache ?? true;
+        this.cachePolicies = { ...DEFAULT_CACHE_POLICIES, ...config.cachePolicies };
+        this.auth = config.auth ?? null;
+        this.requestIdProvider = config.requestId ?? null;
         this.defaultHeaders = {
             'Content-Type': 'application/json',
             ...config.defaultHeaders
@@ -178,19 +730,129 @@ export class ApiClient {
     }
 
     /**
-     * Internal fetch wrapper with error handling and timeout
+     * Internal fetch wrapper that applies the retry policy around `executeRequest`
+     * and validates the final response body against `schema`.
      * @param endpoint API endpoint path
+     * @param schema Zod schema the response body must satisfy
      * @param options Fetch options
      * @param customFetch Custom fetch function (for server-side)
+     * @param callOptions Per-call retry and idempotency options
      * @returns Promise with parsed response
      */
     private async request<T>(
         endpoint: string,
-        options: RequestInit = {},
-        customFetch: typeof fetch = fetch
+        schema: Schema<T>,
+        options: RequestOptions = {},
+        customFetch: typeof fetch = fetch,
+        callOptions: ApiCallOptions = {}
     ): Promise<T> {
+        const { anonymous = false, ...init } = options;
+        const method = (init.method || 'GET').toUpperCase();
+        const headers: Record<string, string> = { ...(init.headers as Record<string, string>) };
+
+        const auth = anonymous ? null : this.auth;
+        const token = auth ? await auth.getAccessToken() : null;
+        if (token) {
+            headers['Authorization'] = `Bearer ${token}`;
+        }
+
+        // One ID per call: retries and the token refresh reuse it, so the backend can group them
+        const requestId = this.requestIdProvider?.() ?? createRequestId();
+        headers[REQUEST_ID_HEADER] = requestId;
+
+        // The key is generated once per call so every retry reuses it
+        if (callOptions.idempotencyKey) {
+            headers['Idempotency-Key'] = callOptions.idempotencyKey;
+        }
+
+        const policy: RetryPolicy = callOptions.retry === false
+            ? { ...this.retryPolicy, retries: 0 }
+            : { ...this.retryPolicy, ...callOptions.retry };
+
+        const canRetry = method === 'GET' || !!headers['Idempotency-Key'] || policy.retryUnsafeMethods;
+        const maxAttempts = canRetry ? policy.retries + 1 : 1;
+
+        const { signal } = callOptions;
+        let data: unknown;
+        let refreshed = false;
+        for (let attempt = 1; ; attempt++) {
+            try {
+                data = await this.executeRequest(endpoint, { ...init, headers }, customFetch, signal);
+                break;
+            } catch (error) {
+                // An expired token gets exactly one refresh; the retried call does not count as an attempt
+                if (
+                    error instanceof ApiError && error.status === 401 &&
+                    token && !refreshed && auth?.refreshAccessToken
+                ) {
+                    refreshed = true;
+                    const newToken = await auth.refreshAccessToken().catch(() => null);
+                    if (newToken) {
+                        if (this.debug) {
+                            console.warn(`🔑 Token refreshed after 401, retrying ${method} ${endpoint}`);
+                        }
+                        headers['Authorization'] = `Bearer ${newToken}`;
+                        attempt--;
+                        continue;
+                    }
+                }
+
+                if (error instanceof RequestAbortedError) {
+                    throw error;
+                }
+
+                if (attempt >= maxAttempts || !isTransientError(error, policy)) {
+                    if (error instanceof ApiError || error instanceof NetworkError) {
+                        error.requestId = requestId;
+                    }
+                    throw error;
+                }
+
+                const delay = getRetryDelay(error, attempt, policy);
+                if (this.debug) {
+                    console.warn(`🔁 Retrying ${method} ${endpoint} in ${delay}ms (attempt ${attempt + 1}/${maxAttempts})`);
+                }
+                await sleep(delay, signal);
+                if (signal?.aborted) {
+                    throw new RequestAbortedError(endpoint);
+                }
+            }
+        }
+
+        const result = schema.safeParse(data);
+        if (!result.success) {
+            const issue = result.error.issues[0];
+            const path = formatIssuePath(issue?.path ?? []);
+            if (this.debug) {
+                console.error(`❌ Response validation failed for ${endpoint} at ${path}:`, result.error.issues);
+            }
+            const validationError = new ResponseValidationError(endpoint, path, result.error.issues);
+            validationError.requestId = requestId;
+            throw validationError;
+        }
+        return result.data;
+    }
+
+    /**
+     * Performs a single HTTP attempt with timeout handling.
+     * @param endpoint API endpoint path
+     * @param options Fetch options
+     * @param customFetch Custom fetch function (for server-side)
+     * @param signal Caller's cancellation signal
+     * @returns Promise with parsed response
+     */
+    private async executeRequest(
+        endpoint: string,
+        options: RequestInit,
+        customFetch: typeof fetch,
+        signal?: AbortSignal
+    ): Promise<unknown> {
         const url = `${this.baseUrl}${endpoint}`;
 
+        if (signal?.aborted) {
+            throw new RequestAbortedError(endpoint);
+        }
+
         if (this.debug) {
             console.log(`🔄 API Request: ${options.method || 'GET'} ${url}`);
             if (options.body) {
@@ -198,9 +860,11 @@ export class ApiClient {
             }
         }
 
-        // Setup request with timeout
+        // Setup request with timeout; the caller's signal aborts the same controller
         const controller = new AbortController();
         const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+        const abortFromCaller = () => controller.abort();
+        signal?.addEventListener('abort', abortFromCaller, { once: true });
 
         try {
             const response = await customFetch(url, {
@@ -235,10 +899,15 @@ export class ApiClient {
                     console.error(`❌ API Error: ${response.status} for ${url}`, data);
                 }
 
+                if (response.headers.has(UPSTREAM_UNREACHABLE_HEADER)) {
+                    throw new NetworkError(endpoint, new Error(data.detail || 'Backend unavailable'));
+                }
+
                 throw new ApiError(
                     response.status,
                     data.detail || data.message || `HTTP ${response.status}: ${response.statusText}`,
-                    endpoint
+                    endpoint,
+                    parseRetryAfter(response.headers.get('retry-after'))
                 );
             }
 
@@ -250,10 +919,14 @@ export class ApiClient {
         } catch (error) {
             clearTimeout(timeoutId);
 
-            if (error instanceof ApiError) {
+            if (error instanceof ApiError || error instanceof NetworkError) {
                 throw error;
             }
 
+            if (signal?.aborted) {
+                throw new RequestAbortedError(endpoint);
+            }
+
             if (error.name === 'AbortError') {
                 throw new NetworkError(endpoint, new Error('Request timeout'));
             }
@@ -264,184 +937,728 @@ export class ApiClient {
             }
 
             throw new NetworkError(endpoint, error as Error);
+        } finally {
+            signal?.removeEventListener('abort', abortFromCaller);
         }
     }
 
+    /**
+     * Returns a client that authenticates with `auth` and shares this client's configuration
+     * and response cache. Safe to share because only anonymous requests are cached.
+     * On the server create one per request (see `hooks.server.ts`); never put a
+     * session-bound provider on the shared `apiClient` there.
+     * @param auth Token provider for the new client
+     */
+    withAuth(auth: AuthTokenProvider): ApiClient {
+        const client = new ApiClient({ ...this.config, auth });
+        client.cache = this.cache;
+        client.fallbacks = this.fallbacks;
+        client.lastKnownGood = this.lastKnownGood;
+        client.requestIdProvider = this.requestIdProvider;
+        return client;
+    }
+
+    /**
+     * Sets or clears the token provider of this instance.
+     * Intended for the browser, where the shared `apiClient` belongs to a single visitor.
+     * @param auth Token provider, or null to send anonymous requests
+     */
+    setAuthProvider(auth: AuthTokenProvider | null): void {
+        this.auth = auth;
+    }
+
+    /**
+     * Sets where the `X-Request-ID` of each call comes from. Unlike the token provider this is
+     * safe on the shared server instance: `hooks.server.ts` passes a provider that reads the
+     * ID of the request currently being handled. Without one, every call gets a fresh ID.
+     * @param provider Correlation ID source, or null to generate one per call
+     */
+    setRequestIdProvider(provider: RequestIdProvider | null): void {
+        this.requestIdProvider = provider;
+    }
+
+    /**
+     * Routes a public GET through the response cache.
+     * Must only wrap anonymous endpoints: entries are shared by every caller of this instance.
+     * The shared load runs without the caller's signal; cancelling only stops this caller waiting.
+     * @param endpoint Which cache policy applies
+     * @param key Cache key from `cacheKeys`
+     * @param loader Performs the actual request with the given call options
+     * @param callOptions Per-call options (honors `forceRefresh` and `signal`)
+     */
+    private cached<T>(
+        endpoint: CacheableEndpoint,
+        key: string,
+        loader: (callOptions: ApiCallOptions) => Promise<T>,
+        callOptions: ApiCallOptions = {}
+    ): Promise<T> {
+        if (!this.cacheEnabled) return loader(callOptions);
+
+        const { signal, ...sharedOptions } = callOptions;
+        const shared = this.cache.get(
+            key,
+            this.cachePolicies[endpoint],
+            () => loader(sharedOptions),
+            callOptions.forceRefresh
+        );
+        return signal ? untilAborted(shared, signal) : shared;
+    }
+
+    /**
+     * Registers the offline fallback for a method (see `registerDefaultFallbacks`).
+     * @param method The `ApiClient` method to protect
+     * @param provider Static data source used when no last-known-good response exists
+     */
+    registerFallback<M extends FallbackableMethod>(method: M, provider: FallbackProvider<M>): void {
+        (this.fallbacks as Record<M, FallbackProvider<M>>)[method] = provider;
+    }
+
+    /**
+     * Runs `load` and remembers its result; on `NetworkError` serves the last-known-good
+     * response for the same arguments, or the registered static fallback, marked as degraded.
+     * Only wraps public methods: remembered responses are shared by every caller.
+     * @param method Method whose fallback applies
+     * @param args Method arguments, used to key last-known-good responses
+     * @param endpoint Endpoint path, recorded in the degradation details
+     * @param load Performs the real (possibly cached) request
+     */
+    private async withFallback<M extends FallbackableMethod>(
+        method: M,
+        args: FallbackSignatures[M]['args'],
+        endpoint: string,
+        load: () => Promise<FallbackSignatures[M]['result']>
+    ): Promise<FallbackSignatures[M]['result']> {
+        const key = `${method}:${JSON.stringify(args)}`;
+        try {
+            const result = await load();
+            this.lastKnownGood.set(key, structuredClone(result));
+            return result;
+        } catch (error) {
+            const provider = this.fallbacks[method] as FallbackProvider<M> | undefined;
+            if (!(error instanceof NetworkError) || !provider) throw error;
+
+            const servedAt = new Date().toISOString();
+            if (this.lastKnownGood.has(key)) {
+                console.warn(`⚠️ ${endpoint} unreachable, serving last-known-good response`);
+                const lastGood = structuredClone(this.lastKnownGood.get(key)) as FallbackSignatures[M]['result'];
+                return markDegraded(lastGood, { source: 'last-known-good', endpoint, servedAt });
+            }
+
+            const fallback = await provider(...args);
+            if (fallback === undefined) throw error;
+            console.warn(`⚠️ ${endpoint} unreachable, serving static fallback data`);
+            return markDegraded(fallback, { source: 'static', endpoint, servedAt });
+        }
+    }
+
+    /**
+     * Drops cached responses whose key starts with `prefix` (see `cacheKeys`).
+     * @param prefix Key prefix; omit to clear the whole cache
+     */
+    invalidateCache(prefix?: string): void {
+        if (this.debug) {
+            console.log(`🧹 Invalidating API cache: ${prefix || '(all)'}`);
+        }
+        this.cache.invalidate(prefix);
+    }
+
     // Content API methods
     async getPageContent(
         slug: string,
         langCode: string,
-        customFetch?: typeof fetch
+        customFetch?: typeof fetch,
+        callOptions?: ApiCallOptions
     ): Promise<PageContent> {
-        return this.request<PageContent>(
-            `/content/${slug}/${langCode}`,
-            { method: 'GET' },
-            customFetch
+        const endpoint = `/content/${slug}/${langCode}`;
+        return this.withFallback('getPageContent', [slug, langCode], endpoint, () =>
+            this.request(
+                endpoint,
+                pageContentSchema,
+                { method: 'GET', anonymous: true },
+                customFetch,
+                callOptions
+            )
         );
     }
 
     async submitContactForm(
         contactData: ContactForm,
-        customFetch?: typeof fetch
+        customFetch?: typeof fetch,
+        callOptions?: ApiCallOptions
     ): Promise<{ message: string }> {
-        return this.request<{ message: string }>(
+        return this.request(
             '/content/contact',
+            messageResponseSchema,
             {
                 method: 'POST',
                 body: JSON.stringify(contactData)
             },
-            customFetch
+            customFetch,
+            callOptions
         );
     }
 
-    // Admin Content API methods (require authentication)
+    // Admin Content API methods (require authentication through the client's token provider)
     async createPageContent(
         contentData: PageContentCreate,
-        authToken: string,
-        customFetch?: typeof fetch
+        customFetch?: typeof fetch,
+        callOptions?: ApiCallOptions
     ): Promise<PageContent> {
-        return this.request<PageContent>(
+        return this.request(
             '/content/admin/content',
+            pageContentSchema,
             {
                 method: 'POST',
-                headers: {
-                    'Authorization': `Bearer ${authToken}`
-                },
                 body: JSON.stringify(contentData)
             },
-            customFetch
+            customFetch,
+            callOptions
         );
     }
 
     async updatePageContent(
         contentId: string,
         contentData: PageContentUpdate,
-        authToken: string,
-        customFetch?: typeof fetch
+        customFetch?: typeof fetch,
+        callOptions?: ApiCallOptions
     ): Promise<PageContent> {
-        return this.request<PageContent>(
+        return this.request(
             `/content/admin/content/${contentId}`,
+            pageContentSchema,
             {
                 method: 'PUT',
-                headers: {
-                    'Authorization': `Bearer ${authToken}`
-                },
                 body: JSON.stringify(contentData)
             },
-            customFetch
+            customFetch,
+            callOptions
         );
     }
 
     async getLanguages(
-        authToken: string,
-        customFetch?: typeof fetch
+        customFetch?: typeof fetch,
+        callOptions?: ApiCallOptions
     ): Promise<Language[]> {
-        return this.request<Language[]>(
+        return this.request(
             '/content/admin/languages',
-            {
-                method: 'GET',
-                headers: {
-                    'Authorization': `Bearer ${authToken}`
-                }
-            },
-            customFetch
+            z.array(languageSchema),
+            { method: 'GET' },
+            customFetch,
+            callOptions
         );
     }
 
     // Ticket API methods
-    async getTicketTypes(customFetch?: typeof fetch): Promise<TicketType[]> {
-        return this.request<TicketType[]>(
-            '/tickets/types',
-            { method: 'GET' },
-            customFetch
+    async getTicketTypes(
+        customFetch?: typeof fetch,
+        callOptions?: ApiCallOptions
+    ): Promise<TicketType[]> {
+        return this.withFallback('getTicketTypes', [], '/tickets/types', () =>
+            this.cached('ticketTypes', cacheKeys.ticketTypes(), (options) =>
+                this.request(
+                    '/tickets/types',
+                    z.array(ticketTypeSchema),
+                    { method: 'GET', anonymous: true },
+                    customFetch,
+                    options
+                ),
+                callOptions
+            )
+        );
+    }
+
+    /** Pricing rules for visit days and visitor categories, evaluated with `priceTicket`. */
+    async getPricingRules(
+        customFetch?: typeof fetch,
+        callOptions?: ApiCallOptions
+    ): Promise<PricingRule[]> {
+        return this.withFallback('getPricingRules', [], '/tickets/pricing-rules', () =>
+            this.cached('pricingRules', cacheKeys.pricingRules(), (options) =>
+                this.request(
+                    '/tickets/pricing-rules',
+                    z.array(pricingRuleSchema),
+                    { method: 'GET', anonymous: true },
+                    customFetch,
+                    options
+                ),
+                callOptions
+            )
+        );
+    }
+
+    /** The museum's weekly closing days, holidays and special openings, read with `openingOf`. */
+    async getOpeningCalendar(
+        customFetch?: typeof fetch,
+        callOptions?: ApiCallOptions
+    ): Promise<OpeningCalendar> {
+        return this.withFallback('getOpeningCalendar', [], '/tickets/opening-calendar', () =>
+            this.cached('openingCalendar', cacheKeys.openingCalendar(), (options) =>
+                this.request(
+                    '/tickets/opening-calendar',
+                    openingCalendarSchema,
+                    { method: 'GET', anonymous: true },
+                    customFetch,
+                    options
+                ),
+                callOptions
+            )
         );
     }
 
     async getTimeSlots(
         ticketTypeId: string,
         date: string,
-        customFetch?: typeof fetch
+        customFetch?: typeof fetch,
+        callOptions?: ApiCallOptions
     ): Promise<TimeSlot[]> {
-        return this.request<TimeSlot[]>(
-            `/tickets/time-slots/${ticketTypeId}?date=${date}`,
-            { method: 'GET' },
-            customFetch
+        return this.cached('timeSlots', cacheKeys.timeSlots(ticketTypeId, date), (options) =>
+            this.request(
+                `/tickets/time-slots/${ticketTypeId}?date=${date}`,
+                z.array(timeSlotSchema),
+                { method: 'GET', anonymous: true },
+                customFetch,
+                options
+            ),
+            callOptions
+        );
+    }
+
+    /**
+     * Fetches per-day availability for a ticket type over an inclusive date range in one request.
+     * Days without any time slot may be omitted by the backend.
+     * Older backends lack this endpoint; see `isUnsupportedEndpointError`.
+     * @param ticketTypeId The ticket type to check
+     * @param from First day (YYYY-MM-DD)
+     * @param to Last day (YYYY-MM-DD)
+     */
+    async getAvailability(
+        ticketTypeId: string,
+        from: string,
+        to: string,
+        customFetch?: typeof fetch,
+        callOptions?: ApiCallOptions
+    ): Promise<DateAvailability[]> {
+        return this.cached('availability', cacheKeys.availability(ticketTypeId, from, to), (options) =>
+            this.request(
+                `/tickets/availability/${ticketTypeId}?from=${from}&to=${to}`,
+                z.array(dateAvailabilitySchema),
+                { method: 'GET', anonymous: true },
+                customFetch,
+                options
+            ),
+            callOptions
         );
     }
 
     // Merchandise API methods
-    async getMerchandise(customFetch?: typeof fetch): Promise<Merchandise[]> {
-        return this.request<Merchandise[]>(
-            '/merchandise',
-            { method: 'GET' },
-            customFetch
+    async getMerchandise(
+        customFetch?: typeof fetch,
+        callOptions?: ApiCallOptions
+    ): Promise<Merchandise[]> {
+        return this.withFallback('getMerchandise', [], '/merchandise', () =>
+            this.cached('merchandise', cacheKeys.merchandise(), (options) =>
+                this.request(
+                    '/merchandise',
+                    z.array(merchandiseSchema),
+                    { method: 'GET', anonymous: true },
+                    customFetch,
+                    options
+                ),
+                callOptions
+            )
         );
     }
 
     async getMerchandiseItem(
         merchandiseId: string,
-        customFetch?: typeof fetch
+        customFetch?: typeof fetch,
+        callOptions?: ApiCallOptions
     ): Promise<Merchandise> {
-        return this.request<Merchandise>(
-            `/merchandise/${merchandiseId}`,
-            { method: 'GET' },
-            customFetch
+        const endpoint = `/merchandise/${merchandiseId}`;
+        return this.withFallback('getMerchandiseItem', [merchandiseId], endpoint, () =>
+            this.cached('merchandiseItem', cacheKeys.merchandiseItem(merchandiseId), (options) =>
+                this.request(
+                    endpoint,
+                    merchandiseSchema,
+                    { method: 'GET', anonymous: true },
+                    customFetch,
+                    options
+                ),
+                callOptions
+            )
         );
     }
 
     // Booking API methods
     async createBooking(
-        bookingData: Partial<Booking>,
-        customFetch?: typeof fetch
+        bookingData: BookingCreate,
+        customFetch?: typeof fetch,
+        callOptions: ApiCallOptions = {}
     ): Promise<Booking> {
-        return this.request<Booking>(
+        const booking = await this.request(
             '/bookings',
+            bookingSchema,
             {
                 method: 'POST',
                 body: JSON.stringify(bookingData)
             },
-            customFetch
+            customFetch,
+            { ...callOptions, idempotencyKey: callOptions.idempotencyKey ?? createIdempotencyKey() }
         );
+        // The booking consumed capacity: every slot list for that day is now outdated
+        this.invalidateCache(cacheKeys.timeSlotsForDate(booking.booking_date.slice(0, 10)));
+        this.invalidateCache(cacheKeys.allAvailability());
+        return booking;
+    }
+
+    /**
+     * Reserves places in a time slot while the visitor pays. Pass the returned `id` as
+     * `hold_id` in the booking so it takes over the held places.
+     * @param holdData Slot and line items to hold
+     */
+    async createSeatHold(
+        holdData: SeatHoldCreate,
+        customFetch?: typeof fetch,
+        callOptions: ApiCallOptions = {}
+    ): Promise<SeatHold> {
+        const hold = await this.request(
+            '/bookings/holds',
+            seatHoldSchema,
+            {
+                method: 'POST',
+                body: JSON.stringify(holdData)
+            },
+            customFetch,
+            { ...callOptions, idempotencyKey: callOptions.idempotencyKey ?? createIdempotencyKey() }
+        );
+        // Held places are no longer available to anyone else
+        this.invalidateCache(cacheKeys.allTimeSlots());
+        this.invalidateCache(cacheKeys.allAvailability());
+        return hold;
+    }
+
+    /**
+     * Gives held places back before the hold expires.
+     * @param holdId The hold to release
+     */
+    async releaseSeatHold(
+        holdId: string,
+        customFetch?: typeof fetch,
+        callOptions?: ApiCallOptions
+    ): Promise<{ message: string }> {
+        const response = await this.request(
+            `/bookings/holds/${holdId}`,
+            messageResponseSchema,
+            { method: 'DELETE' },
+            customFetch,
+            callOptions
+        );
+        this.invalidateCache(cacheKeys.allTimeSlots());
+        this.invalidateCache(cacheKeys.allAvailability());
+        return response;
     }
 
     async getBooking(
         bookingId: string,
-        customFetch?: typeof fetch
+        customFetch?: typeof fetch,
+        callOptions?: ApiCallOptions
     ): Promise<Booking> {
-        return this.request<Booking>(
+        return this.request(
             `/bookings/${bookingId}`,
+            bookingSchema,
             { method: 'GET' },
-            customFetch
+            customFetch,
+            callOptions
+        );
+    }
+
+    /**
+     * Confirms a PENDING booking, e.g. a group visit once a guide is assigned. Staff only.
+     * @param bookingId The booking to confirm
+     */
+    async confirmBooking(
+        bookingId: string,
+        customFetch?: typeof fetch,
+        callOptions?: ApiCallOptions
+    ): Promise<Booking> {
+        return this.request(
+            `/bookings/${bookingId}/confirm`,
+            bookingSchema,
+            { method: 'POST' },
+            customFetch,
+            callOptions
         );
     }
 
+    /**
+     * Checks a visitor in at the entrance and marks their booking COMPLETED. Staff only.
+     * Fails with 409 when the booking was already checked in or is not confirmed.
+     * @param bookingId The booking named by the visitor's ticket
+     * @param checkedInAt When the ticket was scanned, for check-ins queued while offline
+     */
+    async checkInBooking(
+        bookingId: string,
+        checkedInAt: string,
+        customFetch?: typeof fetch,
+        callOptions: ApiCallOptions = {}
+    ): Promise<Booking> {
+        return this.request(
+            `/bookings/${bookingId}/check-in`,
+            bookingSchema,
+            {
+                method: 'POST',
+                body: JSON.stringify({ checked_in_at: checkedInAt })
+            },
+            customFetch,
+            { ...callOptions, idempotencyKey: callOptions.idempotencyKey ?? createIdempotencyKey() }
+        );
+    }
+
+    /**
+     * Finds a booking from the details a visitor has at hand.
+     * @param reference The booking reference from the confirmation (first block of the id)
+     * @param email The email the booking was made with
+     */
+    async lookupBooking(
+        reference: string,
+        email: string,
+        customFetch?: typeof fetch,
+        callOptions?: ApiCallOptions
+    ): Promise<Booking> {
+        const params = new URLSearchParams({ reference, email });
+        return this.request(
+            `/bookings/lookup?${params}`,
+            bookingSchema,
+            { method: 'GET', anonymous: true },
+            customFetch,
+            callOptions
+        );
+    }
+
+    /**
+     * Cancels a booking on the visitor's behalf and frees its places.
+     * @param bookingId The booking to cancel
+     * @param token The access token from the booking's signed link
+     */
+    async cancelBooking(
+        bookingId: string,
+        token: string,
+        customFetch?: typeof fetch,
+        callOptions: ApiCallOptions = {}
+    ): Promise<Booking> {
+        const booking = await this.request(
+            `/bookings/${bookingId}/cancel`,
+            bookingSchema,
+            {
+                method: 'POST',
+                body: JSON.stringify({ token })
+            },
+            customFetch,
+            { ...callOptions, idempotencyKey: callOptions.idempotencyKey ?? createIdempotencyKey() }
+        );
+        this.invalidateCache(cacheKeys.timeSlotsForDate(booking.booking_date.slice(0, 10)));
+        this.invalidateCache(cacheKeys.allAvailability());
+        return booking;
+    }
+
+    /**
+     * Moves a booking to another time slot of the same ticket type. The backend checks the
+     * new slot's capacity again.
+     * @param bookingId The booking to move
+     * @param timeSlotId The new time slot
+     * @param token The access token from the booking's signed link
+     */
+    async rescheduleBooking(
+        bookingId: string,
+        timeSlotId: string,
+        token: string,
+        customFetch?: typeof fetch,
+        callOptions: ApiCallOptions = {}
+    ): Promise<Booking> {
+        const booking = await this.request(
+            `/bookings/${bookingId}/reschedule`,
+            bookingSchema,
+            {
+                method: 'POST',
+                body: JSON.stringify({ time_slot_id: timeSlotId, token })
+            },
+            customFetch,
+            { ...callOptions, idempotencyKey: callOptions.idempotencyKey ?? createIdempotencyKey() }
+        );
+        // Places moved between two slots, possibly on different days
+        this.invalidateCache(cacheKeys.allTimeSlots());
+        this.invalidateCache(cacheKeys.allAvailability());
+        return booking;
+    }
+
     // --- ADDED: Payment API methods ---
+    /**
+     * Checks a promo code before it is sent with an order. Unknown codes fail with 404,
+     * expired or used up ones with 410. The code is checked again when the payment intent is created.
+     */
+    async validatePromoCode(
+        code: string,
+        customFetch?: typeof fetch,
+        callOptions?: ApiCallOptions
+    ): Promise<PromoCode> {
+        return this.request(
+            '/promo-codes/validate',
+            promoCodeSchema,
+            {
+                method: 'POST',
+                body: JSON.stringify({ code }),
+                anonymous: true
+            },
+            customFetch,
+            callOptions
+        );
+    }
+
+    /**
+     * Looks up a gift voucher's balance before it is redeemed. Unknown codes fail with 404,
+     * expired or spent ones with 410. The balance is checked again when the order is paid.
+     */
+    async getGiftVoucher(
+        code: string,
+        customFetch?: typeof fetch,
+        callOptions?: ApiCallOptions
+    ): Promise<GiftVoucher> {
+        return this.request(
+            `/gift-vouchers/${encodeURIComponent(code)}`,
+            giftVoucherSchema,
+            { method: 'GET', anonymous: true },
+            customFetch,
+            callOptions
+        );
+    }
+
     async createPaymentIntent(
         payload: OrderCreatePayload,
-        customFetch?: typeof fetch
+        customFetch?: typeof fetch,
+        callOptions: ApiCallOptions = {}
     ): Promise<{ client_secret: string }> {
-        return this.request<{ client_secret: string }>(
+        const response = await this.request(
             '/payments/create-payment-intent',
+            paymentIntentResponseSchema,
             {
                 method: 'POST',
                 body: JSON.stringify(payload)
             },
-            customFetch
+            customFetch,
+            { ...callOptions, idempotencyKey: callOptions.idempotencyKey ?? createIdempotencyKey() }
+        );
+        this.invalidateOrderCaches(payload);
+        return response;
+    }
+
+    /**
+     * Places an order its gift voucher pays for in full, so there is no card payment to take.
+     * Fails with 422 when the voucher does not cover the order.
+     * @returns The id of the settled payment, which `getOrderByPaymentIntent` accepts
+     */
+    async payWithGiftVoucher(
+        payload: OrderCreatePayload,
+        customFetch?: typeof fetch,
+        callOptions: ApiCallOptions = {}
+    ): Promise<{ payment_intent_id: string }> {
+        const response = await this.request(
+            '/payments/gift-voucher',
+            giftVoucherPaymentResponseSchema,
+            {
+                method: 'POST',
+                body: JSON.stringify(payload)
+            },
+            customFetch,
+            { ...callOptions, idempotencyKey: callOptions.idempotencyKey ?? createIdempotencyKey() }
+        );
+        this.invalidateOrderCaches(payload);
+        return response;
+    }
+
+    /** Drops the cached lists an order changes: slot capacity for a booking, stock for merchandise. */
+    private invalidateOrderCaches(payload: OrderCreatePayload): void {
+        if (payload.booking) {
+            // The payload only names the slot, not its date, so drop all cached slot lists
+            this.invalidateCache(cacheKeys.allTimeSlots());
+            this.invalidateCache(cacheKeys.allAvailability());
+        }
+        if (payload.merchandise_items?.length) {
+            this.invalidateCache(cacheKeys.merchandise());
+        }
+    }
+
+    /**
+     * Finds the order created when a payment intent succeeded, e.g. for the page Stripe returns to.
+     * @param paymentIntentId The `payment_intent` Stripe appends to the return URL
+     */
+    async getOrderByPaymentIntent(
+        paymentIntentId: string,
+        customFetch?: typeof fetch,
+        callOptions?: ApiCallOptions
+    ): Promise<Order> {
+        return this.request(
+            `/payments/${paymentIntentId}/order`,
+            orderSchema,
+            { method: 'GET' },
+            customFetch,
+            callOptions
+        );
+    }
+
+    /**
+     * Marks a simulated payment intent as succeeded (development payment flow only).
+     * The response body is not used by callers, so any JSON object is accepted.
+     */
+    async simulatePaymentSuccess(
+        paymentIntentId: string,
+        customFetch?: typeof fetch,
+        callOptions?: ApiCallOptions
+    ): Promise<Record<string, unknown>> {
+        return this.request(
+            '/payments/simulate-success',
+            z.record(z.unknown()),
+            {
+                method: 'POST',
+                body: JSON.stringify({ payment_intent_id: paymentIntentId })
+            },
+            customFetch,
+            callOptions
+        );
+    }
+
+    /**
+     * The signed-in staff member or administrator. Fails with 401 without a session.
+     */
+    async getCurrentUser(
+        customFetch?: typeof fetch,
+        callOptions?: ApiCallOptions
+    ): Promise<User> {
+        return this.request(
+            '/users/me',
+            userSchema,
+            { method: 'GET' },
+            customFetch,
+            callOptions
         );
     }
 
     // Health check method for debugging
-    async healthCheck(customFetch?: typeof fetch): Promise<{ status: string }> {
-        return this.request<{ status: string }>(
+    async healthCheck(
+        customFetch?: typeof fetch,
+        callOptions?: ApiCallOptions
+    ): Promise<{ status: string }> {
+        return this.request(
             '/health',
+            healthResponseSchema,
             { method: 'GET' },
-            customFetch
+            customFetch,
+            callOptions
         );
     }
 }
 
 // Export default instances for different environments
 export const apiClient = new ApiClient();
+registerDefaultFallbacks(apiClient);
 
 // Debug version for development
 export const debugApiClient = new ApiClient({ debug: true });
@@ -460,12 +1677,26 @@ export function createApiClient(config?: ApiClientConfig): ApiClient {
 export function handleApiError(
     error: unknown,
     fallbackMessage: string = 'An unexpected error occurred'
-): { status: number; message: string; details: string } {
+): { status: number; message: string; details: string; requestId?: string } {
     if (error instanceof ApiError) {
         return {
             status: error.status,
             message: getPublicErrorMessage(error.status),
-            details: error.detail
+            details: error.detail,
+            requestId: error.requestId
+        };
+    }
+
+    if (error instanceof ResponseValidationError) {
+        console.error(
+            `Invalid API response from ${error.endpoint} at ${error.path} (request ${error.requestId}):`,
+            error.issues
+        );
+        return {
+            status: 502,
+            message: getPublicErrorMessage(502),
+            details: 'The server returned an unexpected response. Please try again later.',
+            requestId: error.requestId
         };
     }
 
@@ -473,7 +1704,8 @@ export function handleApiError(
         return {
             status: 500,
             message: 'Connection Error',
-            details: 'Unable to connect to the server. Please try again later.'
+            details: 'Unable to connect to the server. Please try again later.',
+            requestId: error.requestId
         };
     }
 
@@ -485,6 +1717,22 @@ export function handleApiError(
     };
 }
 
+/**
+ * Tells whether an error means the backend does not implement the called route at all,
+ * as opposed to a missing resource. FastAPI answers unknown routes with a bare
+ * `404 Not Found` and known routes with the wrong method with `405`.
+ * @param error Caught error from API call
+ * @returns True if callers should fall back to an older endpoint
+ */
+export function isUnsupportedEndpointError(error: unknown): boolean {
+    if (!(error instanceof ApiError)) return false;
+    return (
+        (error.status === 404 && error.detail === 'Not Found') ||
+        error.status === 405 ||
+        error.status === 501
+    );
+}
+
 /**
  * Convert HTTP status codes to user-friendly messages
  * @param status HTTP status code
@@ -515,6 +1763,109 @@ function getPublicErrorMessage(status: number): string {
     }
 }
 
+/**
+ * Generates a unique idempotency key for a mutating request.
+ * @returns A random UUID, or a timestamp-based fallback where `crypto.randomUUID` is unavailable
+ */
+export function createIdempotencyKey(): string {
+    return createRequestId();
+}
+
+/**
+ * Generates a unique ID for `X-Request-ID` and `Idempotency-Key` headers.
+ * @returns A UUID, or a timestamp-based ID where `crypto.randomUUID` is unavailable
+ */
+export function createRequestId(): string {
+    if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+        return crypto.randomUUID();
+    }
+    return `${Date.now().toString(36)}-${Math.random().toString(36).substring(2)}`;
+}
+
+/**
+ * Decides whether a failed attempt is worth retrying under the given policy
+ * @param error Error thrown by a single attempt
+ * @param policy Active retry policy
+ * @returns True for network failures and transient HTTP statuses
+ */
+function isTransientError(error: unknown, policy: RetryPolicy): boolean {
+    if (error instanceof NetworkError) return true;
+    if (error instanceof ApiError) return policy.retryOnStatus.includes(error.status);
+    return false;
+}
+
+/**
+ * Computes the delay before the next attempt, honoring `Retry-After` when present
+ * @param error Error thrown by the previous attempt
+ * @param attempt 1-based number of the attempt that just failed
+ * @param policy Active retry policy
+ * @returns Delay in milliseconds
+ */
+function getRetryDelay(error: unknown, attempt: number, policy: RetryPolicy): number {
+    if (error instanceof ApiError && error.retryAfterMs !== undefined) {
+        return Math.min(error.retryAfterMs, policy.maxDelayMs);
+    }
+    // Exponential backoff with "equal jitter": half fixed, half random
+    const backoff = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+    return Math.round(backoff / 2 + Math.random() * (backoff / 2));
+}
+
+/**
+ * Parses a `Retry-After` header given either in seconds or as an HTTP date
+ * @param value Raw header value
+ * @returns Delay in milliseconds, or undefined when absent or invalid
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+    if (!value) return undefined;
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Formats a zod issue path as a readable accessor, e.g. `[2].available_slots`
+ * @param path Path segments from a zod issue
+ * @returns The formatted path, or `(root)` for the response itself
+ */
+function formatIssuePath(path: (string | number)[]): string {
+    if (path.length === 0) return '(root)';
+    return path
+        .map((segment, index) =>
+            typeof segment === 'number' ? `[${segment}]` : index === 0 ? segment : `.${segment}`
+        )
+        .join('');
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+        const timer = setTimeout(done, ms);
+        signal?.addEventListener('abort', done, { once: true });
+
+        function done() {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', done);
+            resolve();
+        }
+    });
+}
+
+/**
+ * Lets one caller stop waiting for a shared promise without cancelling the work behind it.
+ * @param promise Shared result
+ * @param signal Caller's cancellation signal
+ * @returns The shared result, or a `RequestAbortedError` rejection once `signal` aborts
+ */
+function untilAborted<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+    if (signal.aborted) return Promise.reject(new RequestAbortedError());
+
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => reject(new RequestAbortedError());
+        signal.addEventListener('abort', onAbort, { once: true });
+        promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+}
+
 /**
  * Utility to check if the API client is working correctly
  * Can be used in development to debug proxy issues
@@ -0,0 +1,116 @@
+/**
+ * @file fallbacks.ts
+ * @purpose Offline fallbacks for `ApiClient` methods and the "degraded response" marker pages read.
+ *
+ * @dependencies
+ * - $lib/data/mockTickets, mockContent, mockMerchandise: Static data served when nothing better is known.
+ *
+ * @notes
+ * - When a registered method fails with a `NetworkError`, `ApiClient` serves the last response it
+ *   received for the same arguments, or else the static data registered here.
+ * - Fallback responses are marked as degraded. Load functions turn that mark into a serializable
+ *   `ConnectionState` with `getConnectionState`, so every page drives its offline banner the same way.
+ * - The mark does not survive serialization: read it where the response is received.
+ */
+
+import type { ApiClient } from './apiClient';
+import { getMockOpeningCalendar, getMockPricingRules, getMockTicketTypes } from '$lib/data/mockTickets';
+import { getMockPageContent } from '$lib/data/mockContent';
+import { getMockMerchandise } from '$lib/data/mockMerchandise';
+
+/** Where a degraded response came from. */
+export type DegradedSource = 'last-known-good' | 'static';
+
+/** Details attached to a response served by a fallback. */
+export interface Degradation {
+    source: DegradedSource;
+    /** Endpoint that could not be reached. */
+    endpoint: string;
+    /** ISO timestamp of when the fallback was served. */
+    servedAt: string;
+}
+
+/** Serializable connection summary returned by load functions to drive the offline banner. */
+export interface ConnectionState {
+    isOnline: boolean;
+    connectionStatus: 'connected' | 'offline';
+    dataSource: 'api' | 'fallback';
+    fallbackInfo?: {
+        isOfflineMode: boolean;
+        message: string;
+        description: string;
+        timestamp: string;
+    };
+}
+
+const degradedResponses = new WeakMap<object, Degradation>();
+
+/**
+ * Marks a fallback response as degraded.
+ * @param value The response served instead of live data
+ * @param degradation Where it came from
+ * @returns The same value, for chaining
+ */
+export function markDegraded<T>(value: T, degradation: Degradation): T {
+    if (value !== null && typeof value === 'object') {
+        degradedResponses.set(value, degradation);
+    }
+    return value;
+}
+
+/**
+ * Returns the degradation details of a response, or null if it is live data.
+ * @param value A value returned by an `ApiClient` method
+ */
+export function getDegradation(value: unknown): Degradation | null {
+    if (value === null || typeof value !== 'object') return null;
+    return degradedResponses.get(value) ?? null;
+}
+
+/**
+ * Tells whether a response was served by an offline fallback.
+ * @param value A value returned by an `ApiClient` method
+ */
+export function isDegraded(value: unknown): boolean {
+    return getDegradation(value) !== null;
+}
+
+/**
+ * Summarizes the responses a page was built from. One degraded response is enough
+ * for the page to show the offline banner.
+ * @param values Responses returned by `ApiClient` methods
+ * @returns Serializable state for the page's `data`
+ */
+export function getConnectionState(...values: unknown[]): ConnectionState {
+    const degradation = values.map(getDegradation).find((entry) => entry !== null);
+    if (!degradation) {
+        return { isOnline: true, connectionStatus: 'connected', dataSource: 'api' };
+    }
+
+    return {
+        isOnline: false,
+        connectionStatus: 'offline',
+        dataSource: 'fallback',
+        fallbackInfo: {
+            isOfflineMode: true,
+            message: 'Modalità Offline',
+            description:
+                degradation.source === 'last-known-good'
+                    ? 'Il collegamento al server non è disponibile. Visualizzando gli ultimi dati ricevuti.'
+                    : 'Il collegamento al server non è disponibile. Visualizzando dati dimostrativi.',
+            timestamp: degradation.servedAt
+        }
+    };
+}
+
+/**
+ * Registers the static fallbacks for public catalogue and content methods.
+ * @param client The client to register them on
+ */
+export function registerDefaultFallbacks(client: ApiClient): void {
+    client.registerFallback('getTicketTypes', () => getMockTicketTypes());
+    client.registerFallback('getPricingRules', () => getMockPricingRules());
+    client.registerFallback('getOpeningCalendar', () => getMockOpeningCalendar());
+    client.registerFallback('getPageContent', (slug, langCode) => getMockPageContent(slug, langCode));
+    client.registerFallback('getMerchandise', () => structuredClone(getMockMerchandise()));
+}
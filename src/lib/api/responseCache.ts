@@ -0,0 +1,105 @@
+/**
+ * @file responseCache.ts
+ * @purpose Stale-while-revalidate cache with in-flight de-duplication for `ApiClient` GETs.
+ *
+ * @dependencies
+ * - None
+ *
+ * @notes
+ * - Entries are fresh for `ttlMs`, then served stale for up to `staleMs` while a single
+ *   background request refreshes them. Older entries are treated as missing.
+ * - Concurrent loads for the same key share one promise, so SSR loads and components
+ *   asking for the same data at the same moment hit the backend once.
+ * - Keys are plain paths (e.g. `tickets/time-slots/2025-07-14/<ticketTypeId>`) so a whole
+ *   family can be dropped with `invalidate(prefix)`.
+ * - Values are cloned on the way in and out: on the server the cache outlives a single
+ *   request, and a caller mutating its copy must never leak into another request.
+ * - Only public catalogue data belongs here. `ApiClient` never routes authenticated or
+ *   user-specific requests through this cache.
+ */
+
+/** Freshness settings for one cacheable endpoint. */
+export interface CachePolicy {
+    /** How long (ms) an entry is served without revalidation. */
+    ttlMs: number;
+    /** How long (ms) after expiry an entry may still be served while revalidating. */
+    staleMs: number;
+}
+
+interface CacheEntry {
+    value: unknown;
+    storedAt: number;
+}
+
+export class ResponseCache {
+    private entries = new Map<string, CacheEntry>();
+    private inFlight = new Map<string, Promise<unknown>>();
+
+    /**
+     * Returns the cached value for `key`, loading it with `loader` when missing or too old.
+     * @param key Cache key
+     * @param policy Freshness settings for this key
+     * @param loader Performs the real request
+     * @param forceRefresh Skip any cached value and wait for a fresh load
+     * @returns The cached or freshly loaded value
+     */
+    async get<T>(
+        key: string,
+        policy: CachePolicy,
+        loader: () => Promise<T>,
+        forceRefresh = false
+    ): Promise<T> {
+        const entry = this.entries.get(key);
+        const age = entry ? Date.now() - entry.storedAt : Infinity;
+
+        if (!forceRefresh && entry && age < policy.ttlMs) {
+            return clone(entry.value as T);
+        }
+
+        if (!forceRefresh && entry && age < policy.ttlMs + policy.staleMs) {
+            // Serve stale data now; failures of the background refresh keep the old entry
+            this.load(key, loader).catch(() => undefined);
+            return clone(entry.value as T);
+        }
+
+        return clone(await this.load(key, loader));
+    }
+
+    /**
+     * Drops every entry whose key starts with `prefix`. In-flight loads are detached
+     * so their (possibly outdated) result is not written back.
+     * @param prefix Key prefix, or an empty string to clear everything
+     */
+    invalidate(prefix = ''): void {
+        for (const key of [...this.entries.keys()]) {
+            if (key.startsWith(prefix)) this.entries.delete(key);
+        }
+        for (const key of [...this.inFlight.keys()]) {
+            if (key.startsWith(prefix)) this.inFlight.delete(key);
+        }
+    }
+
+    private load<T>(key: string, loader: () => Promise<T>): Promise<T> {
+        const pending = this.inFlight.get(key);
+        if (pending) return pending as Promise<T>;
+
+        const promise = loader()
+            .then((value) => {
+                // Only store the result if this load was not invalidated meanwhile
+                if (this.inFlight.get(key) === promise) {
+                    this.entries.set(key, { value: clone(value), storedAt: Date.now() });
+                }
+                return value;
+            })
+            .finally(() => {
+                if (this.inFlight.get(key) === promise) this.inFlight.delete(key);
+            });
+
+        this.inFlight.set(key, promise);
+        return promise;
+    }
+}
+
+function clone<T>(value: T): T {
+    return structuredClone(value);
+}
@@ -0,0 +1,57 @@
+/**
+ * @file mockContent.ts
+ * @purpose Provides placeholder CMS pages and languages for offline/fallback scenarios and the mock backend
+ *
+ * @dependencies
+ * - $lib/api/apiClient: For the PageContent and Language type definitions
+ *
+ * @notes
+ * - Covers the pages that read CMS content, in every configured locale (it, en, de)
+ * - Shared by the ApiClient offline fallback and the in-process mock backend
+ */
+
+import type { Language, PageContent } from '$lib/api/apiClient';
+
+const SEED_TIMESTAMP = '2024-01-01T09:00:00Z';
+
+/**
+ * Mock languages matching project.inlang settings
+ */
+export const mockLanguages: Language[] = [
+    { code: 'it', name: 'Italiano', is_default: true },
+    { code: 'en', name: 'English', is_default: false },
+    { code: 'de', name: 'Deutsch', is_default: false }
+];
+
+const pages: Array<[slug: string, language: string, title: string, content: string]> = [
+    ['about', 'it', 'Chi siamo', 'Il Museo della Civiltà Rupestre di Zungri racconta la vita nelle grotte.'],
+    ['about', 'en', 'About us', 'The Zungri Museum of Rock Civilisation tells the story of life in the caves.'],
+    ['about', 'de', 'Über uns', 'Das Museum von Zungri erzählt vom Leben in den Höhlen.'],
+    ['plan-your-visit', 'it', 'Pianifica la visita', 'Aperto da martedì a domenica, 9:30-17:30.'],
+    ['plan-your-visit', 'en', 'Plan your visit', 'Open Tuesday to Sunday, 9:30am-5:30pm.'],
+    ['plan-your-visit', 'de', 'Besuch planen', 'Geöffnet Dienstag bis Sonntag, 9:30-17:30 Uhr.']
+];
+
+/**
+ * Mock CMS pages for fallback scenarios
+ */
+export const mockPageContents: PageContent[] = pages.map(([slug, language_code, title, content]) => ({
+    id: `content-${slug}-${language_code}`,
+    slug,
+    language_code,
+    title,
+    content,
+    created_at: SEED_TIMESTAMP,
+    updated_at: SEED_TIMESTAMP
+}));
+
+/**
+ * Gets a copy of a mock page
+ * @param slug - Page slug
+ * @param langCode - Language code
+ * @returns The page, or undefined if there is no mock for it
+ */
+export function getMockPageContent(slug: string, langCode: string): PageContent | undefined {
+    const page = mockPageContents.find((p) => p.slug === slug && p.language_code === langCode);
+    return page ? structuredClone(page) : undefined;
+}
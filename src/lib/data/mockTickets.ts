@@ -0,0 +1,207 @@
+/**
+ * @file mockTickets.ts
+ * @purpose Provides placeholder ticket types, pricing rules and opening calendar for offline/fallback scenarios and the mock backend
+ *
+ * @dependencies
+ * - $lib/api/apiClient: For the TicketType, PricingRule and OpeningCalendar type definitions
+ * - $lib/utils/museumTime: The museum's current year, for dating the opening calendar
+ *
+ * @notes
+ * - Mirrors the museum's real price list so offline pages show realistic prices
+ * - Shared by the ApiClient offline fallback and the in-process mock backend
+ * - Guided group visits are left out of the seasonal and free-entry rules
+ * - The opening calendar's holidays and special openings are dated this year and next at the museum, and
+ *   are built on each call, so a long-running server never falls behind the year
+ */
+
+import type { OpeningCalendar, OpeningException, PricingRule, TicketType } from '$lib/api/apiClient';
+import { museumToday } from '$lib/utils/museumTime';
+
+const SEED_TIMESTAMP = '2024-01-01T09:00:00Z';
+
+/**
+ * Mock ticket types for fallback scenarios
+ */
+export const mockTicketTypes: TicketType[] = [
+    {
+        id: 'tt-standard',
+        name_translations: { it: 'Intero', en: 'Standard', de: 'Standard' },
+        description_translations: {
+            it: 'Ingresso al museo e alle grotte',
+            en: 'Museum and cave site admission',
+            de: 'Eintritt in Museum und Höhlen'
+        },
+        price: 8,
+        age_category: 'adult',
+        created_at: SEED_TIMESTAMP,
+        updated_at: SEED_TIMESTAMP
+    },
+    {
+        id: 'tt-reduced',
+        name_translations: { it: 'Ridotto', en: 'Reduced', de: 'Ermäßigt' },
+        description_translations: {
+            it: 'Studenti, over 65 e residenti',
+            en: 'Students, over 65s and residents',
+            de: 'Studierende, über 65 und Einwohner'
+        },
+        price: 5,
+        created_at: SEED_TIMESTAMP,
+        updated_at: SEED_TIMESTAMP
+    },
+    {
+        id: 'tt-child',
+        name_translations: { it: 'Bambini (6-12)', en: 'Children (6-12)', de: 'Kinder (6-12)' },
+        price: 3,
+        age_category: 'child',
+        created_at: SEED_TIMESTAMP,
+        updated_at: SEED_TIMESTAMP
+    },
+    {
+        id: 'tt-group',
+        name_translations: { it: 'Gruppo', en: 'Group', de: 'Gruppe' },
+        description_translations: {
+            it: 'Visita guidata per gruppi da 5 a 10 persone',
+            en: 'Guided tour for groups of 5 to 10 people',
+            de: 'Führung für Gruppen von 5 bis 10 Personen'
+        },
+        price: 60,
+        group_size: 10,
+        min_group_size: 5,
+        created_at: SEED_TIMESTAMP,
+        updated_at: SEED_TIMESTAMP
+    }
+];
+
+const INDIVIDUAL_TICKET_TYPE_IDS = ['tt-standard', 'tt-reduced', 'tt-child'];
+
+/**
+ * Mock pricing rules, in the order they are applied
+ */
+export const mockPricingRules: PricingRule[] = [
+    {
+        id: 'pr-free-first-sunday',
+        name_translations: {
+            it: 'Domenica al museo: ingresso gratuito',
+            en: 'Free first Sunday of the month',
+            de: 'Freier Eintritt am ersten Sonntag im Monat'
+        },
+        adjustment: 'free',
+        ticket_type_ids: INDIVIDUAL_TICKET_TYPE_IDS,
+        weekdays: [0],
+        week_of_month: 1
+    },
+    {
+        id: 'pr-high-season',
+        name_translations: { it: 'Alta stagione', en: 'High season', de: 'Hochsaison' },
+        adjustment: 'amount',
+        value: 2,
+        age_categories: ['adult'],
+        season_from: '06-15',
+        season_to: '09-15'
+    },
+    {
+        id: 'pr-low-season',
+        name_translations: { it: 'Bassa stagione', en: 'Low season', de: 'Nebensaison' },
+        adjustment: 'percent',
+        value: -25,
+        ticket_type_ids: INDIVIDUAL_TICKET_TYPE_IDS,
+        season_from: '11-01',
+        season_to: '03-15'
+    },
+    {
+        id: 'pr-weekend',
+        name_translations: { it: 'Supplemento weekend', en: 'Weekend surcharge', de: 'Wochenendzuschlag' },
+        adjustment: 'amount',
+        value: 1,
+        age_categories: ['adult'],
+        weekdays: [0, 6]
+    },
+    {
+        id: 'pr-family-weekend',
+        name_translations: {
+            it: 'Weekend in famiglia: bambini a metà prezzo',
+            en: 'Family weekend: children half price',
+            de: 'Familienwochenende: Kinder zum halben Preis'
+        },
+        adjustment: 'percent',
+        value: -50,
+        age_categories: ['child'],
+        weekdays: [0, 6]
+    }
+];
+
+/**
+ * Gets a copy of the mock ticket types
+ * @returns Array of mock ticket types
+ */
+export function getMockTicketTypes(): TicketType[] {
+    return structuredClone(mockTicketTypes);
+}
+
+/**
+ * Gets a copy of the mock pricing rules
+ * @returns Array of mock pricing rules
+ */
+export function getMockPricingRules(): PricingRule[] {
+    return structuredClone(mockPricingRules);
+}
+
+/**
+ * Mock holidays and special openings of one year
+ */
+function openingExceptionsOf(year: number): OpeningException[] {
+    return [
+        {
+            id: `oe-new-year-${year}`,
+            kind: 'closed',
+            name_translations: { it: 'Capodanno', en: "New Year's Day", de: 'Neujahr' },
+            date_from: `${year}-01-01`
+        },
+        {
+            id: `oe-summer-evenings-${year}`,
+            kind: 'special',
+            name_translations: {
+                it: 'Venerdì sera al museo',
+                en: 'Friday evenings at the museum',
+                de: 'Freitagabende im Museum'
+            },
+            date_from: `${year}-07-01`,
+            date_to: `${year}-08-31`,
+            weekdays: [5],
+            opens_at: '20:30',
+            closes_at: '23:00'
+        },
+        {
+            id: `oe-ferragosto-${year}`,
+            kind: 'special',
+            name_translations: {
+                it: 'Ferragosto al museo',
+                en: 'Ferragosto at the museum',
+                de: 'Ferragosto im Museum'
+            },
+            date_from: `${year}-08-15`,
+            opens_at: '18:00',
+            closes_at: '22:00'
+        },
+        {
+            id: `oe-christmas-${year}`,
+            kind: 'closed',
+            name_translations: { it: 'Chiusura natalizia', en: 'Christmas closure', de: 'Weihnachtsschließung' },
+            date_from: `${year}-12-24`,
+            date_to: `${year}-12-26`
+        }
+    ];
+}
+
+/**
+ * Gets the mock opening calendar: closed on Mondays, with this year's and next year's exceptions
+ * @param today The museum's current day, `YYYY-MM-DD`
+ * @returns The mock opening calendar
+ */
+export function getMockOpeningCalendar(today: string = museumToday()): OpeningCalendar {
+    const year = Number(today.slice(0, 4));
+    return {
+        closed_weekdays: [1],
+        exceptions: [...openingExceptionsOf(year), ...openingExceptionsOf(year + 1)]
+    };
+}
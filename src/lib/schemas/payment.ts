@@ -12,16 +12,54 @@
 
 
 
+/**
+ * Mirrors the backend's `BookingLineItemCreate` schema.
+ * One ticket type and how many of it; a booking holds one line per ticket type.
+ */
+export interface BookingLineItemCreate {
+    ticket_type_id: string; // UUID
+    quantity: number;
+}
+
 /**
      * Mirrors the backend's `BookingCreate` schema.
      * Used when a booking is part of the checkout payload.
+     * All line items share the time slot, whose capacity must cover their combined quantity.
      */
 export interface BookingCreate {
     time_slot_id: string; // UUID
-    quantity: number;
+    line_items: BookingLineItemCreate[];
     customer_name: string;
     customer_email: string;
     user_id?: string; // Optional UUID
+    hold_id?: string; // Seat hold the booking takes over instead of claiming new capacity
+    group?: GroupBookingCreate; // Set for group visits, which take one place per participant
+}
+
+/**
+ * Mirrors the backend's `GroupBookingCreate` schema.
+ * Organiser details of a group visit. A group booking holds a single line item, one ticket of a
+ * group ticket type, and waits as PENDING until staff confirm it.
+ */
+export interface GroupBookingCreate {
+    participants: number; // Between the ticket type's `min_group_size` and `group_size`
+    organisation: string;
+    phone: string;
+    accessibility_needs?: string;
+    guide_language: string; // ISO 639-1 code
+    payment_method: 'CARD' | 'INVOICE';
+    invoice_tax_id?: string; // VAT number or fiscal code, required with INVOICE
+    invoice_address?: string; // Billing address, required with INVOICE
+}
+
+/**
+ * Mirrors the backend's `SeatHoldCreate` schema.
+ * Reserves places in a time slot for a short window while the visitor pays.
+ */
+export interface SeatHoldCreate {
+    time_slot_id: string; // UUID
+    line_items: BookingLineItemCreate[];
+    participants?: number; // Group visits hold one place per participant instead of per ticket
 }
 
 /**
@@ -33,6 +71,20 @@ export interface MerchandiseOrderItemCreate {
     quantity: number;
 }
 
+/**
+ * Mirrors the backend's `GiftVoucherCreate` schema.
+ * A gift voucher bought in the shop. Once paid, its code and PDF are emailed to the buyer, and the
+ * backend emails them to `recipient_email`, if given, on `delivery_date`.
+ */
+export interface GiftVoucherCreate {
+    amount: number; // Between GIFT_VOUCHER_MIN_AMOUNT and GIFT_VOUCHER_MAX_AMOUNT euros
+    recipient_name: string;
+    recipient_email?: string;
+    sender_name?: string;
+    message?: string; // Printed on the voucher, at most GIFT_VOUCHER_MESSAGE_MAX_LENGTH characters
+    delivery_date: string; // YYYY-MM-DD, today or later on the museum's clock
+}
+
 /**
  * Mirrors the backend's `OrderCreatePayload` schema.
  * This is the main data structure sent to the `create-payment-intent` endpoint.
@@ -42,4 +94,8 @@ export interface OrderCreatePayload {
     merchandise_items?: MerchandiseOrderItemCreate[];
     customer_name?: string;
     customer_email?: string;
+    promo_code?: string; // Checked again by the backend, which charges the discounted total
+    gift_vouchers?: GiftVoucherCreate[];
+    gift_voucher_code?: string; // Voucher whose balance pays for as much of the order as it covers
+    language?: string; // Language of the emails sent once the order is paid
 }
\ No newline at end of file
@@ -0,0 +1,26 @@
+// File: frontend/src/lib/server/apiAuth.ts
+import type { AuthTokenProvider } from '$lib/api/apiClient';
+
+/**
+ * Server-side token provider for `ApiClient`, backed by the request's `event.locals`.
+ * Values are read lazily so handles that populate the session later in the chain are honored.
+ * Create one per request: the provider holds that visitor's session.
+ */
+export function createLocalsTokenProvider(locals: App.Locals): AuthTokenProvider {
+    return {
+        async getAccessToken() {
+            return locals.session?.access_token ?? locals.accessToken ?? null;
+        },
+
+        async refreshAccessToken() {
+            if (!locals.supabase) return null;
+
+            const { data, error } = await locals.supabase.auth.refreshSession();
+            if (error || !data.session) return null;
+
+            locals.session = data.session;
+            locals.accessToken = data.session.access_token;
+            return data.session.access_token;
+        }
+    };
+}
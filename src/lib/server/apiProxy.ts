@@ -0,0 +1,173 @@
+/**
+ * @file apiProxy.ts
+ * @purpose Forwards `/api/v1` requests to the FastAPI backend where no Vite dev proxy exists (production).
+ *
+ * @dependencies
+ * - $env/dynamic/private: `BACKEND_URL` (falls back to `VITE_BACKEND_URL`, then `http://localhost:8000`).
+ * - $lib/api/apiClient: Shared header names.
+ * - $lib/server/apiAuth: Reads the visitor's Supabase access token from `event.locals`.
+ * - $lib/server/mockBackend: Answers `backendFetch` when `MOCK_API=true`.
+ *
+ * @notes
+ * - Served by `src/routes/api/v1/[...path]/+server.ts`. In development the Vite proxy answers first,
+ *   and with `MOCK_API=true` the mock backend does; both paths keep working unchanged.
+ * - Only upstream paths matching `ALLOWED_PATHS` are forwarded. Anything else gets FastAPI's bare
+ *   `404 Not Found`, so `isUnsupportedEndpointError` treats it like a route the backend lacks.
+ *   Add new backend routes to the allowlist together with their `ApiClient` method.
+ * - Request and response bodies are streamed, never buffered. Status codes pass through untouched.
+ * - Hop-by-hop headers (and any listed in `Connection`) are dropped in both directions. Cookies are not
+ *   forwarded: the backend authenticates with the bearer token, taken from the incoming request or
+ *   else from the session in `event.locals`.
+ * - When the backend cannot be reached the proxy answers 503 with `X-Upstream-Unreachable`, which
+ *   `ApiClient` turns into a `NetworkError` so retries and offline fallbacks behave as in development.
+ */
+
+import type { RequestEvent } from '@sveltejs/kit';
+import { env } from '$env/dynamic/private';
+import { REQUEST_ID_HEADER, UPSTREAM_UNREACHABLE_HEADER } from '$lib/api/apiClient';
+import { createLocalsTokenProvider } from '$lib/server/apiAuth';
+import { logger } from '$lib/server/logger';
+import { handleMockApiRequest } from '$lib/server/mockBackend';
+
+const API_PREFIX = '/api/v1';
+
+/** Upstream paths (relative to `/api/v1/`) the proxy forwards. Mirrors the routes `ApiClient` calls. */
+const ALLOWED_PATHS: RegExp[] = [
+    /^health$/,
+    /^content\/contact$/,
+    /^content\/admin\/(content|languages)$/,
+    /^content\/admin\/content\/[\w-]+$/,
+    /^content\/[\w-]+\/[\w-]+$/,
+    /^tickets\/(types|pricing-rules|opening-calendar)$/,
+    /^tickets\/(time-slots|availability)\/[\w-]+$/,
+    /^merchandise(\/[\w-]+)?$/,
+    /^bookings(\/[\w-]+)?$/,
+    /^bookings\/[\w-]+\/(cancel|reschedule|confirm|check-in)$/,
+    /^bookings\/holds\/[\w-]+$/,
+    /^payments\/(create-payment-intent|simulate-success|gift-voucher)$/,
+    /^payments\/[\w-]+\/order$/,
+    /^promo-codes\/validate$/,
+    /^gift-vouchers\/[\w-]+$/,
+    /^users\/me$/
+];
+
+/** Headers meaningful for a single connection only (RFC 9110 §7.6.1). */
+const HOP_BY_HOP_HEADERS = [
+    'connection',
+    'keep-alive',
+    'proxy-authenticate',
+    'proxy-authorization',
+    'proxy-connection',
+    'te',
+    'trailer',
+    'transfer-encoding',
+    'upgrade'
+];
+
+/**
+ * Forwards one request to the backend and streams the answer back.
+ * @param event The request event of the catch-all `/api/v1` route
+ * @returns The backend's response, or a FastAPI-style error response
+ */
+export async function proxyApiRequest(event: RequestEvent): Promise<Response> {
+    const path = event.url.pathname.slice(API_PREFIX.length + 1);
+    if (!ALLOWED_PATHS.some((pattern) => pattern.test(path))) {
+        logger.warn('Blocked API proxy request outside the allowlist', {
+            method: event.request.method,
+            path
+        });
+        return Response.json({ detail: 'Not Found' }, { status: 404 });
+    }
+
+    const upstreamUrl = new URL(`${API_PREFIX}/${path}${event.url.search}`, getBackendUrl());
+    const headers = await buildUpstreamHeaders(event);
+    const hasBody = !['GET', 'HEAD'].includes(event.request.method);
+
+    let upstream: Response;
+    try {
+        upstream = await fetch(upstreamUrl, {
+            method: event.request.method,
+            headers,
+            body: hasBody ? event.request.body : undefined,
+            // Required by Node's fetch to stream a request body
+            duplex: hasBody ? 'half' : undefined,
+            redirect: 'manual',
+            signal: event.request.signal
+        } as RequestInit & { duplex?: 'half' });
+    } catch (error) {
+        logger.error('API proxy could not reach the backend', {
+            method: event.request.method,
+            url: upstreamUrl.toString(),
+            error: error instanceof Error ? error.message : String(error)
+        });
+        return Response.json(
+            { detail: 'Backend unavailable' },
+            { status: 503, headers: { [UPSTREAM_UNREACHABLE_HEADER]: 'true' } }
+        );
+    }
+
+    const responseHeaders = stripHopByHopHeaders(new Headers(upstream.headers));
+    // Node's fetch has already decoded the body, so the original encoding and length no longer apply
+    responseHeaders.delete('content-encoding');
+    responseHeaders.delete('content-length');
+
+    return new Response(upstream.body, {
+        status: upstream.status,
+        statusText: upstream.statusText,
+        headers: responseHeaders
+    });
+}
+
+/** Backend origin, read per request so deployments can change it without a rebuild. */
+export function getBackendUrl(): string {
+    return env.BACKEND_URL || env.VITE_BACKEND_URL || 'http://localhost:8000';
+}
+
+/** Calls the backend directly: background jobs have no incoming request whose `fetch` they could use. */
+export const backendFetch: typeof fetch = (input, init) =>
+    env.MOCK_API === 'true' ? handleMockApiRequest(new Request(input, init)) : fetch(input, init);
+
+/**
+ * Copies the incoming headers that are safe to forward and adds auth, correlation and forwarding headers.
+ * @param event The request being proxied
+ */
+async function buildUpstreamHeaders(event: RequestEvent): Promise<Headers> {
+    const headers = stripHopByHopHeaders(new Headers(event.request.headers));
+    headers.delete('host');
+    headers.delete('cookie');
+    // The body is streamed with chunked encoding instead
+    headers.delete('content-length');
+
+    if (!headers.has('authorization')) {
+        const token = await createLocalsTokenProvider(event.locals).getAccessToken();
+        if (token) headers.set('authorization', `Bearer ${token}`);
+    }
+
+    headers.set(REQUEST_ID_HEADER, event.locals.requestId);
+    headers.set('x-forwarded-host', event.url.host);
+    headers.set('x-forwarded-proto', event.url.protocol.replace(':', ''));
+    try {
+        headers.set('x-forwarded-for', event.getClientAddress());
+    } catch {
+        // Not every adapter can tell the client address (e.g. during prerendering)
+    }
+
+    return headers;
+}
+
+/**
+ * Removes hop-by-hop headers, including the ones a `Connection` header declares as such.
+ * @param headers Headers to clean (modified in place)
+ * @returns The same headers
+ */
+function stripHopByHopHeaders(headers: Headers): Headers {
+    const connectionHeaders = (headers.get('connection') ?? '')
+        .split(',')
+        .map((name) => name.trim().toLowerCase())
+        .filter(Boolean);
+
+    for (const name of [...HOP_BY_HOP_HEADERS, ...connectionHeaders]) {
+        headers.delete(name);
+    }
+    return headers;
+}
@@ -0,0 +1,93 @@
+// File: frontend/src/lib/server/availabilityFeed.ts
+import { env } from '$env/dynamic/private';
+import { ApiClient, type TimeSlot } from '$lib/api/apiClient';
+import { backendFetch, getBackendUrl } from '$lib/server/apiProxy';
+import { availabilityPublisher, type AvailabilityListener } from '$lib/server/availabilityPublisher';
+import { logger } from '$lib/server/logger';
+
+/**
+ * Feeds the availability publisher for the days visitors are looking at.
+ *
+ * The mock backend publishes its own capacity changes as they happen. The real backend has no push
+ * channel yet, so in production this polling is the source of every update: while a ticket type and
+ * day has watchers on an instance, that instance re-reads its slots every `POLL_INTERVAL_MS` and
+ * publishes them whenever a count changed. Polling stops with the instance's last watcher. Through
+ * Redis the updates also reach the other instances' watchers, which may therefore hear of a change
+ * sooner than their own poll, and sometimes twice, which is harmless: an update is the full state of the day.
+ */
+
+const POLL_INTERVAL_MS = 15_000;
+
+interface Poll {
+    timer: ReturnType<typeof setInterval>;
+    /** Capacity of the last published read, to skip reads where nothing changed. */
+    fingerprint?: string;
+}
+
+class AvailabilityFeed {
+    private polls = new Map<string, Poll>();
+    private client?: ApiClient;
+
+    /**
+     * Sends capacity updates for one ticket type and day to a listener.
+     * @returns A function that stops the updates
+     */
+    watch(ticketTypeId: string, date: string, listener: AvailabilityListener): () => void {
+        const unsubscribe = availabilityPublisher.subscribe(ticketTypeId, date, listener);
+        if (env.MOCK_API !== 'true') this.startPolling(ticketTypeId, date);
+
+        return () => {
+            unsubscribe();
+            if (availabilityPublisher.listenerCount(ticketTypeId, date) === 0) this.stopPolling(ticketTypeId, date);
+        };
+    }
+
+    private startPolling(ticketTypeId: string, date: string): void {
+        const key = `${ticketTypeId}/${date}`;
+        if (this.polls.has(key)) return;
+
+        const timer = setInterval(() => void this.poll(ticketTypeId, date), POLL_INTERVAL_MS);
+        // Never keep the process alive just for a polling loop
+        timer.unref?.();
+        this.polls.set(key, { timer });
+    }
+
+    private stopPolling(ticketTypeId: string, date: string): void {
+        const key = `${ticketTypeId}/${date}`;
+        const poll = this.polls.get(key);
+        if (!poll) return;
+        clearInterval(poll.timer);
+        this.polls.delete(key);
+    }
+
+    private async poll(ticketTypeId: string, date: string): Promise<void> {
+        let slots: TimeSlot[];
+        try {
+            slots = await this.loadSlots(ticketTypeId, date);
+        } catch (error) {
+            logger.warn('Availability poll failed', {
+                ticketTypeId,
+                date,
+                error: error instanceof Error ? error.message : String(error)
+            });
+            return;
+        }
+
+        // Stopped while the request was in flight
+        const poll = this.polls.get(`${ticketTypeId}/${date}`);
+        if (!poll) return;
+
+        const fingerprint = slots.map((slot) => `${slot.id}:${slot.available_slots}/${slot.capacity}`).join(',');
+        if (fingerprint === poll.fingerprint) return;
+        poll.fingerprint = fingerprint;
+
+        availabilityPublisher.publish({ ticket_type_id: ticketTypeId, date, time_slots: slots });
+    }
+
+    private loadSlots(ticketTypeId: string, date: string): Promise<TimeSlot[]> {
+        this.client ??= new ApiClient({ baseUrl: `${getBackendUrl()}/api/v1` });
+        return this.client.getTimeSlots(ticketTypeId, date, backendFetch, { forceRefresh: true });
+    }
+}
+
+export const availabilityFeed = new AvailabilityFeed();
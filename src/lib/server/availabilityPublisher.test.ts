@@ -0,0 +1,133 @@
+import { EventEmitter } from 'node:events';
+import { describe, expect, it, vi } from 'vitest';
+import type { AvailabilityUpdate } from '$lib/api/apiClient';
+import {
+    InMemoryAvailabilityPublisher,
+    RedisAvailabilityPublisher,
+    type PublishingConnection,
+    type SubscribingConnection
+} from './availabilityPublisher';
+
+function update(ticketTypeId: string, date: string, available = 3): AvailabilityUpdate {
+    return {
+        ticket_type_id: ticketTypeId,
+        date,
+        time_slots: [
+            {
+                id: `${ticketTypeId}_${date}_0930`,
+                start_time: `${date}T07:30:00.000Z`,
+                end_time: `${date}T09:00:00.000Z`,
+                capacity: 25,
+                available_slots: available,
+                ticket_type_id: ticketTypeId
+            }
+        ]
+    } as AvailabilityUpdate;
+}
+
+/** A stand-in for Redis pub/sub: each `connect()` is one instance's pair of connections. */
+class FakeBroker {
+    private subscribers = new Set<{ channels: Set<string>; events: EventEmitter }>();
+
+    connect(): { publisher: PublishingConnection; subscriber: SubscribingConnection } {
+        const connection = { channels: new Set<string>(), events: new EventEmitter() };
+        this.subscribers.add(connection);
+
+        const publisher = {
+            publish: async (channel: string, message: string) => {
+                let receivers = 0;
+                for (const { channels, events } of this.subscribers) {
+                    if (channels.has(channel)) {
+                        events.emit('message', channel, message);
+                        receivers++;
+                    }
+                }
+                return receivers;
+            }
+        };
+        const subscriber = {
+            subscribe: async (channel: string) => connection.channels.add(channel).size,
+            unsubscribe: async (channel: string) => (connection.channels.delete(channel), connection.channels.size),
+            on: (event: string, listener: (...args: unknown[]) => void) => {
+                connection.events.on(event, listener);
+                return subscriber;
+            }
+        };
+        return {
+            publisher: publisher as unknown as PublishingConnection,
+            subscriber: subscriber as unknown as SubscribingConnection
+        };
+    }
+
+    channelsOf(index: number): string[] {
+        return [...[...this.subscribers][index].channels];
+    }
+}
+
+function instanceOn(broker: FakeBroker): RedisAvailabilityPublisher {
+    const { publisher, subscriber } = broker.connect();
+    return new RedisAvailabilityPublisher(publisher, subscriber);
+}
+
+describe('InMemoryAvailabilityPublisher', () => {
+    it('delivers an update only to listeners of its ticket type and day', () => {
+        const publisher = new InMemoryAvailabilityPublisher();
+        const watching = vi.fn();
+        const otherDay = vi.fn();
+        publisher.subscribe('adult', '2025-07-14', watching);
+        publisher.subscribe('adult', '2025-07-15', otherDay);
+
+        publisher.publish(update('adult', '2025-07-14'));
+
+        expect(watching).toHaveBeenCalledOnce();
+        expect(otherDay).not.toHaveBeenCalled();
+    });
+
+    it('keeps delivering when a listener throws, and stops after unsubscribing', () => {
+        const publisher = new InMemoryAvailabilityPublisher();
+        const listener = vi.fn();
+        publisher.subscribe('adult', '2025-07-14', () => {
+            throw new Error('stream closed');
+        });
+        const unsubscribe = publisher.subscribe('adult', '2025-07-14', listener);
+
+        publisher.publish(update('adult', '2025-07-14'));
+        unsubscribe();
+        publisher.publish(update('adult', '2025-07-14'));
+
+        expect(listener).toHaveBeenCalledOnce();
+        expect(publisher.listenerCount('adult', '2025-07-14')).toBe(1);
+    });
+});
+
+describe('RedisAvailabilityPublisher', () => {
+    it('delivers an update published on one instance to listeners on another', async () => {
+        const broker = new FakeBroker();
+        const publishing = instanceOn(broker);
+        const watching = instanceOn(broker);
+        const listener = vi.fn();
+        watching.subscribe('adult', '2025-07-14', listener);
+
+        publishing.publish(update('adult', '2025-07-14', 1));
+        await vi.waitFor(() => expect(listener).toHaveBeenCalledOnce());
+
+        expect(listener.mock.calls[0][0].time_slots[0].available_slots).toBe(1);
+        expect(publishing.listenerCount('adult', '2025-07-14')).toBe(0);
+    });
+
+    it('subscribes to a channel while the instance has listeners on it', async () => {
+        const broker = new FakeBroker();
+        const instance = instanceOn(broker);
+
+        const first = instance.subscribe('adult', '2025-07-14', vi.fn());
+        const second = instance.subscribe('adult', '2025-07-14', vi.fn());
+        await vi.waitFor(() => expect(broker.channelsOf(0)).toEqual(['availability:adult/2025-07-14']));
+
+        first();
+        await Promise.resolve();
+        expect(broker.channelsOf(0)).toHaveLength(1);
+
+        second();
+        await vi.waitFor(() => expect(broker.channelsOf(0)).toEqual([]));
+    });
+});
@@ -0,0 +1,140 @@
+// File: frontend/src/lib/server/availabilityPublisher.ts
+import type { Redis } from 'ioredis';
+import { env } from '$env/dynamic/private';
+import type { AvailabilityUpdate } from '$lib/api/apiClient';
+import { logger } from '$lib/server/logger';
+import { redis } from '$lib/server/redis';
+
+/**
+ * Publish/subscribe channel for time slot capacity, one topic per ticket type and day.
+ *
+ * Pages viewing a day subscribe through the availability stream; whatever learns about a capacity
+ * change publishes it. With `REDIS_URL` set, updates go through Redis pub/sub and reach the streams
+ * of every server instance, as a serverless deploy needs. Without it the in-memory publisher only
+ * reaches subscribers in the same process, which is enough for a single instance and the mock backend.
+ */
+
+export type AvailabilityListener = (update: AvailabilityUpdate) => void;
+
+export interface AvailabilityPublisher {
+    /** Sends an update to everyone watching its ticket type and day. */
+    publish(update: AvailabilityUpdate): void;
+    /**
+     * Watches one ticket type and day.
+     * @returns A function that stops the subscription
+     */
+    subscribe(ticketTypeId: string, date: string, listener: AvailabilityListener): () => void;
+    /** Number of listeners on a topic, so sources can stop producing updates nobody reads. */
+    listenerCount(ticketTypeId: string, date: string): number;
+}
+
+function topicOf(ticketTypeId: string, date: string): string {
+    return `${ticketTypeId}/${date}`;
+}
+
+export class InMemoryAvailabilityPublisher implements AvailabilityPublisher {
+    private listeners = new Map<string, Set<AvailabilityListener>>();
+
+    publish(update: AvailabilityUpdate): void {
+        const listeners = this.listeners.get(topicOf(update.ticket_type_id, update.date));
+        if (!listeners) return;
+
+        for (const listener of [...listeners]) {
+            try {
+                listener(update);
+            } catch (error) {
+                // One broken stream must not keep the update from the others
+                logger.warn('Availability listener failed', {
+                    ticketTypeId: update.ticket_type_id,
+                    date: update.date,
+                    error: error instanceof Error ? error.message : String(error)
+                });
+            }
+        }
+    }
+
+    subscribe(ticketTypeId: string, date: string, listener: AvailabilityListener): () => void {
+        const topic = topicOf(ticketTypeId, date);
+        const listeners = this.listeners.get(topic) ?? new Set();
+        listeners.add(listener);
+        this.listeners.set(topic, listeners);
+
+        return () => {
+            listeners.delete(listener);
+            if (listeners.size === 0 && this.listeners.get(topic) === listeners) this.listeners.delete(topic);
+        };
+    }
+
+    listenerCount(ticketTypeId: string, date: string): number {
+        return this.listeners.get(topicOf(ticketTypeId, date))?.size ?? 0;
+    }
+}
+
+/** The Redis commands the Redis publisher uses; subscribing needs a connection of its own. */
+export type PublishingConnection = Pick<Redis, 'publish'>;
+export type SubscribingConnection = Pick<Redis, 'subscribe' | 'unsubscribe' | 'on'>;
+
+const CHANNEL_PREFIX = 'availability:';
+
+/**
+ * Fans updates out through Redis pub/sub. Each instance subscribes to a topic's channel while it has
+ * listeners on it, and hands the messages to them through an in-memory publisher.
+ */
+export class RedisAvailabilityPublisher implements AvailabilityPublisher {
+    private local = new InMemoryAvailabilityPublisher();
+
+    constructor(
+        private publisher: PublishingConnection,
+        private subscriber: SubscribingConnection
+    ) {
+        subscriber.on('message', (channel: string, message: string) => {
+            if (!channel.startsWith(CHANNEL_PREFIX)) return;
+            try {
+                this.local.publish(JSON.parse(message) as AvailabilityUpdate);
+            } catch (error) {
+                logger.warn('Malformed availability message', {
+                    channel,
+                    error: error instanceof Error ? error.message : String(error)
+                });
+            }
+        });
+    }
+
+    publish(update: AvailabilityUpdate): void {
+        const channel = CHANNEL_PREFIX + topicOf(update.ticket_type_id, update.date);
+        this.publisher.publish(channel, JSON.stringify(update)).catch((error: unknown) => {
+            logger.warn('Availability update not published', {
+                channel,
+                error: error instanceof Error ? error.message : String(error)
+            });
+        });
+    }
+
+    subscribe(ticketTypeId: string, date: string, listener: AvailabilityListener): () => void {
+        const channel = CHANNEL_PREFIX + topicOf(ticketTypeId, date);
+        if (this.local.listenerCount(ticketTypeId, date) === 0) {
+            this.subscriber.subscribe(channel).catch((error: unknown) => {
+                logger.warn('Availability channel not subscribed', {
+                    channel,
+                    error: error instanceof Error ? error.message : String(error)
+                });
+            });
+        }
+
+        const unsubscribe = this.local.subscribe(ticketTypeId, date, listener);
+        return () => {
+            unsubscribe();
+            if (this.local.listenerCount(ticketTypeId, date) === 0) {
+                this.subscriber.unsubscribe(channel).catch(() => undefined);
+            }
+        };
+    }
+
+    listenerCount(ticketTypeId: string, date: string): number {
+        return this.local.listenerCount(ticketTypeId, date);
+    }
+}
+
+export const availabilityPublisher: AvailabilityPublisher = env.REDIS_URL
+    ? new RedisAvailabilityPublisher(redis, redis.duplicate())
+    : new InMemoryAvailabilityPublisher();
@@ -0,0 +1,53 @@
+// File: frontend/src/lib/server/bookingAccess.ts
+import { createHmac, timingSafeEqual } from 'crypto';
+import { env } from '$env/dynamic/private';
+
+/**
+ * Signed links to a booking's page, `/bookings/{id}?token=...`, its PDF ticket and its calendar
+ * file. The token is an HMAC of the booking id keyed with `BOOKING_LINK_SECRET`, which the backend
+ * shares to check the token sent with cancel and reschedule requests. The confirmation email
+ * carries the page and ticket links.
+ *
+ * Tokens do not expire: once the change window closes the page is read-only anyway.
+ */
+
+function secret(): string {
+    if (!env.BOOKING_LINK_SECRET) throw new Error('BOOKING_LINK_SECRET is not set');
+    return env.BOOKING_LINK_SECRET;
+}
+
+/** The access token for one booking. */
+export function signBookingAccess(bookingId: string): string {
+    return createHmac('sha256', secret()).update(bookingId).digest('base64url');
+}
+
+/**
+ * Checks a token from a booking link. Fails closed when no secret is configured.
+ * @returns Whether `token` grants access to `bookingId`
+ */
+export function verifyBookingAccess(bookingId: string, token: string | null | undefined): boolean {
+    if (!token || !env.BOOKING_LINK_SECRET) return false;
+    const expected = Buffer.from(signBookingAccess(bookingId));
+    const actual = Buffer.from(token);
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/** Path of a booking's page, including its access token. */
+export function manageBookingPath(bookingId: string): string {
+    return `/bookings/${encodeURIComponent(bookingId)}?token=${signBookingAccess(bookingId)}`;
+}
+
+/** Absolute link to a booking's page, as sent in confirmation emails. */
+export function createManageBookingUrl(bookingId: string): string {
+    return `${env.PUBLIC_BASE_URL}${manageBookingPath(bookingId)}`;
+}
+
+/** Path of a booking's PDF ticket, including its access token. */
+export function ticketPath(bookingId: string): string {
+    return `/bookings/${encodeURIComponent(bookingId)}/ticket?token=${signBookingAccess(bookingId)}`;
+}
+
+/** Path of a booking's iCalendar file, including its access token. */
+export function calendarPath(bookingId: string): string {
+    return `/bookings/${encodeURIComponent(bookingId)}/calendar?token=${signBookingAccess(bookingId)}`;
+}
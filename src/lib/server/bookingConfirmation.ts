@@ -0,0 +1,209 @@
+// File: frontend/src/lib/server/bookingConfirmation.ts
+import { env } from '$env/dynamic/private';
+import type { ApiClient, Booking, TicketType, TimeSlot } from '$lib/api/apiClient';
+import { calendarPath, createManageBookingUrl, ticketPath } from '$lib/server/bookingAccess';
+import { emailService } from '$lib/server/emailService';
+import { logger } from '$lib/server/logger';
+import { redis } from '$lib/server/redis';
+import { renderTicketPdf, type TicketPdfContent } from '$lib/server/ticketPdf';
+import { signTicketToken } from '$lib/server/ticketToken';
+import { createVisitIcs, googleCalendarUrl, outlookCalendarUrl, type VisitEvent } from '$lib/server/visitCalendar';
+import { bookingReference } from '$lib/utils/bookingPolicy';
+import { formatDayKey, formatMuseumTime } from '$lib/utils/museumTime';
+
+/**
+ * What a visitor gets once a booking is confirmed: a PDF ticket whose QR code holds a signed
+ * ticket token, a calendar entry for the visit, and a confirmation email with both attached and
+ * links to download the ticket again or manage the booking.
+ *
+ * Confirmation emails are sent once per booking: a key in Redis records the send, so every server
+ * instance and every trigger (see `orderDelivery.ts`) agrees on it.
+ */
+
+/** A booking with the slot and ticket types needed to describe it. */
+export interface BookingDetails {
+    booking: Booking;
+    /** Null when the slot no longer appears in the backend's listing, e.g. for past visits. */
+    timeSlot: TimeSlot | null;
+    ticketTypes: TicketType[];
+}
+
+/** Ways to add a visit to a calendar: the `.ics` download and Google/Outlook event forms. */
+export interface CalendarLinks {
+    icsUrl: string;
+    googleUrl: string;
+    outlookUrl: string;
+}
+
+const EVENT_TITLES: Record<string, string> = {
+    it: 'Visita al Museo di Zungri',
+    en: 'Visit to the Zungri Museum'
+};
+
+/** How long a sent confirmation is remembered; well past any visit it could be sent for. */
+const SENT_TTL_SECONDS = 180 * 24 * 60 * 60;
+
+const sentKey = (bookingId: string) => `sent:booking-confirmation:${bookingId}`;
+
+/**
+ * Loads a booking with its time slot and the ticket types it names.
+ * @param api The request's `ApiClient`
+ * @param bookingId The booking to load
+ * @param customFetch The request's `fetch`
+ */
+export async function loadBookingDetails(
+    api: ApiClient,
+    bookingId: string,
+    customFetch: typeof fetch
+): Promise<BookingDetails> {
+    const [booking, ticketTypes] = await Promise.all([
+        api.getBooking(bookingId, customFetch),
+        api.getTicketTypes(customFetch)
+    ]);
+
+    // Line items keep selection order; the first ticket type is the one the slot belongs to
+    const ticketTypeId = booking.line_items[0]?.ticket_type_id;
+    const slots = ticketTypeId ? await api.getTimeSlots(ticketTypeId, booking.booking_date.slice(0, 10), customFetch) : [];
+    const timeSlot = slots.find((slot) => slot.id === booking.time_slot_id) ?? null;
+
+    return { booking, timeSlot, ticketTypes };
+}
+
+/** Whether a booking has a ticket: it must be confirmed (checked-in bookings keep theirs). */
+export function hasTicket(booking: Booking): boolean {
+    return booking.status === 'CONFIRMED' || booking.status === 'COMPLETED';
+}
+
+/** File name of a booking's PDF ticket. */
+export function ticketFileName(booking: Booking): string {
+    return `museo-zungri-${bookingReference(booking.id)}.pdf`;
+}
+
+/**
+ * Renders a booking's PDF ticket with a freshly signed ticket token.
+ * @param details The booking, as returned by `loadBookingDetails`
+ * @param language Language of the ticket's labels and dates
+ */
+export async function createTicketPdf(details: BookingDetails, language: string): Promise<Uint8Array> {
+    return renderTicketPdf({
+        ...describeBooking(details, language),
+        token: await signTicketToken(details.booking)
+    });
+}
+
+/** File name of a booking's iCalendar file. */
+export function calendarFileName(booking: Booking): string {
+    return `museo-zungri-${bookingReference(booking.id)}.ics`;
+}
+
+/**
+ * The visit as a calendar event, or null when its time slot is unknown.
+ * @param details The booking, as returned by `loadBookingDetails`
+ * @param language Language of the event's title and description
+ */
+export function createVisitEvent(details: BookingDetails, language: string): VisitEvent | null {
+    const { booking, timeSlot } = details;
+    if (!timeSlot) return null;
+
+    const { reference, tickets } = describeBooking(details, language);
+    const referenceLabel = language === 'it' ? 'Prenotazione' : 'Booking';
+    return {
+        uid: `${booking.id}@museozungri.it`,
+        title: EVENT_TITLES[language] ?? EVENT_TITLES.it,
+        description: `${referenceLabel} ${reference}: ${tickets.join(', ')}`,
+        url: createManageBookingUrl(booking.id),
+        start: timeSlot.start_time,
+        end: timeSlot.end_time
+    };
+}
+
+/**
+ * Links that add a confirmed visit to a calendar, or null when the booking has no ticket or
+ * its time slot is unknown.
+ * @param details The booking, as returned by `loadBookingDetails`
+ * @param language Language of the event's title and description
+ */
+export function calendarLinks(details: BookingDetails, language: string): CalendarLinks | null {
+    const event = hasTicket(details.booking) ? createVisitEvent(details, language) : null;
+    if (!event) return null;
+
+    return {
+        icsUrl: calendarPath(details.booking.id),
+        googleUrl: googleCalendarUrl(event),
+        outlookUrl: outlookCalendarUrl(event)
+    };
+}
+
+/**
+ * Emails the confirmation of a booking with its ticket, unless it has already been sent.
+ * Failures are logged and not rethrown: the visitor can still download the ticket.
+ * @param details The confirmed booking, as returned by `loadBookingDetails`
+ * @param language Language of the email and ticket
+ * @returns False when the email could not be sent and should be tried again later
+ */
+export async function sendBookingConfirmation(details: BookingDetails, language: string): Promise<boolean> {
+    const { booking } = details;
+    if (!booking.customer_email || !hasTicket(booking)) return true;
+
+    try {
+        // Claimed before sending, so concurrent triggers cannot both send it
+        const isFirst = await redis.set(sentKey(booking.id), new Date().toISOString(), 'EX', SENT_TTL_SECONDS, 'NX');
+        if (!isFirst) return true;
+    } catch (error) {
+        logger.warn('Booking confirmation not sent: send log unavailable', {
+            bookingId: booking.id,
+            error: error instanceof Error ? error.message : String(error)
+        });
+        return false;
+    }
+
+    try {
+        const content = describeBooking(details, language);
+        const event = createVisitEvent(details, language);
+        await emailService.sendBookingConfirmationEmail(booking.customer_email, {
+            ...content,
+            tickets: content.tickets.join(', '),
+            ticketLink: `${env.PUBLIC_BASE_URL}${ticketPath(booking.id)}`,
+            manageLink: createManageBookingUrl(booking.id),
+            ticketPdf: { filename: ticketFileName(booking), content: await createTicketPdf(details, language) },
+            calendar: event ? { filename: calendarFileName(booking), content: createVisitIcs(event) } : undefined
+        });
+        return true;
+    } catch (error) {
+        // Let the next trigger try again
+        await redis.del(sentKey(booking.id)).catch(() => undefined);
+        logger.warn('Booking confirmation not sent', {
+            bookingId: booking.id,
+            error: error instanceof Error ? error.message : String(error)
+        });
+        return false;
+    }
+}
+
+/** What a ticket says about its booking, formatted for display. */
+export type BookingDescription = Omit<TicketPdfContent, 'token'>;
+
+/**
+ * The ticket's content, formatted for display in `language`. Staff see the same at check-in.
+ * @param details The booking, as returned by `loadBookingDetails`
+ * @param language Language of the dates and ticket type names
+ */
+export function describeBooking({ booking, timeSlot, ticketTypes }: BookingDetails, language: string): BookingDescription {
+    const locale = language === 'it' ? 'it-IT' : 'en-GB';
+    const ticketTypeName = (ticketTypeId: string) => {
+        const names = ticketTypes.find((tt) => tt.id === ticketTypeId)?.name_translations;
+        return names?.[language] || names?.en || names?.it || ticketTypeId;
+    };
+
+    return {
+        language,
+        reference: bookingReference(booking.id),
+        visitorName: booking.customer_name ?? booking.customer_email ?? '',
+        visitDate: formatDayKey(booking.booking_date.slice(0, 10), locale),
+        visitTime: timeSlot
+            ? `${formatMuseumTime(timeSlot.start_time, locale)} - ${formatMuseumTime(timeSlot.end_time, locale)}`
+            : '',
+        tickets: booking.line_items.map((line) => `${line.quantity} × ${ticketTypeName(line.ticket_type_id)}`),
+        group: booking.group ? `${booking.group.organisation} (${booking.group.participants})` : undefined
+    };
+}
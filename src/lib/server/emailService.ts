@@ -13,6 +13,47 @@ interface EmailOptions {
     source: string;
 }
 
+/** Details of a waitlist offer, already formatted for display. */
+export interface WaitlistOfferEmail {
+    language: string;
+    claimLink: string;
+    visitDate: string;
+    visitTime: string;
+    quantity: number;
+    /** When the claim link stops working, on the museum's clock. */
+    expiresAt: string;
+}
+
+/** Details of a confirmed booking, already formatted for display. */
+export interface BookingConfirmationEmail {
+    language: string;
+    visitorName: string;
+    reference: string;
+    visitDate: string;
+    visitTime: string;
+    tickets: string;
+    ticketLink: string;
+    manageLink: string;
+    ticketPdf: { filename: string; content: Uint8Array };
+    /** The visit as an iCalendar file, when its time slot is known. */
+    calendar?: { filename: string; content: string };
+}
+
+/** Details of a gift voucher sent to its buyer, already formatted for display. */
+export interface GiftVoucherEmail {
+    language: string;
+    buyerName: string;
+    recipientName: string;
+    code: string;
+    amount: string;
+    deliveryDate: string;
+    validUntil: string;
+    voucherPdf: { filename: string; content: Uint8Array };
+}
+
+const escapeHtml = (value: string) =>
+    value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
 class EmailService {
     private transporter: nodemailer.Transporter;
 
@@ -70,6 +111,112 @@ class EmailService {
         }
     }
 
+    async sendWaitlistOfferEmail(email: string, offer: WaitlistOfferEmail): Promise<void> {
+        try {
+            const template = emailTemplates.getWaitlistOfferTemplate(offer.language);
+            const fill = (content: string) =>
+                content
+                    .replaceAll('{{claimLink}}', offer.claimLink)
+                    .replaceAll('{{visitDate}}', offer.visitDate)
+                    .replaceAll('{{visitTime}}', offer.visitTime)
+                    .replaceAll('{{quantity}}', String(offer.quantity))
+                    .replaceAll('{{expiresAt}}', offer.expiresAt);
+
+            await this.transporter.sendMail({
+                from: env.FROM_EMAIL,
+                to: email,
+                subject: template.subject,
+                html: fill(template.html),
+                text: fill(template.text)
+            });
+
+            logger.info('Waitlist offer email sent', { email });
+        } catch (error) {
+            logger.error('Error sending waitlist offer email', { email, error });
+            throw error;
+        }
+    }
+
+    async sendBookingConfirmationEmail(email: string, confirmation: BookingConfirmationEmail): Promise<void> {
+        try {
+            const template = emailTemplates.getBookingConfirmationTemplate(confirmation.language);
+            // The visitor's name is free text: escape it (and the rest) before it goes into HTML
+            const fill = (content: string, escape: (value: string) => string) =>
+                content
+                    .replaceAll('{{visitorName}}', escape(confirmation.visitorName))
+                    .replaceAll('{{reference}}', escape(confirmation.reference))
+                    .replaceAll('{{visitDate}}', escape(confirmation.visitDate))
+                    .replaceAll('{{visitTime}}', escape(confirmation.visitTime))
+                    .replaceAll('{{tickets}}', escape(confirmation.tickets))
+                    .replaceAll('{{ticketLink}}', escape(confirmation.ticketLink))
+                    .replaceAll('{{manageLink}}', escape(confirmation.manageLink));
+
+            await this.transporter.sendMail({
+                from: env.FROM_EMAIL,
+                to: email,
+                subject: template.subject,
+                html: fill(template.html, escapeHtml),
+                text: fill(template.text, (value) => value),
+                attachments: [
+                    {
+                        filename: confirmation.ticketPdf.filename,
+                        content: Buffer.from(confirmation.ticketPdf.content),
+                        contentType: 'application/pdf'
+                    },
+                    ...(confirmation.calendar
+                        ? [
+                              {
+                                  filename: confirmation.calendar.filename,
+                                  content: confirmation.calendar.content,
+                                  contentType: 'text/calendar; charset=utf-8; method=PUBLISH'
+                              }
+                          ]
+                        : [])
+                ]
+            });
+
+            logger.info('Booking confirmation email sent', { email, reference: confirmation.reference });
+        } catch (error) {
+            logger.error('Error sending booking confirmation email', { email, error });
+            throw error;
+        }
+    }
+
+    async sendGiftVoucherEmail(email: string, voucher: GiftVoucherEmail): Promise<void> {
+        try {
+            const template = emailTemplates.getGiftVoucherTemplate(voucher.language);
+            // Names are free text: escape them (and the rest) before they go into HTML
+            const fill = (content: string, escape: (value: string) => string) =>
+                content
+                    .replaceAll('{{buyerName}}', escape(voucher.buyerName))
+                    .replaceAll('{{recipientName}}', escape(voucher.recipientName))
+                    .replaceAll('{{code}}', escape(voucher.code))
+                    .replaceAll('{{amount}}', escape(voucher.amount))
+                    .replaceAll('{{deliveryDate}}', escape(voucher.deliveryDate))
+                    .replaceAll('{{validUntil}}', escape(voucher.validUntil));
+
+            await this.transporter.sendMail({
+                from: env.FROM_EMAIL,
+                to: email,
+                subject: template.subject,
+                html: fill(template.html, escapeHtml),
+                text: fill(template.text, (value) => value),
+                attachments: [
+                    {
+                        filename: voucher.voucherPdf.filename,
+                        content: Buffer.from(voucher.voucherPdf.content),
+                        contentType: 'application/pdf'
+                    }
+                ]
+            });
+
+            logger.info('Gift voucher email sent', { email });
+        } catch (error) {
+            logger.error('Error sending gift voucher email', { email, error });
+            throw error;
+        }
+    }
+
     async sendNewsletter(
         subscribers: string[],
         subject: string,
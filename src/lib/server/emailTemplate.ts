@@ -445,6 +445,535 @@ If you didn't request this subscription, you can safely ignore this email.
 
         return templates[language] || templates.it;
     }
+
+    /**
+     * Offer sent to the first eligible visitor on a time slot's waitlist.
+     * Placeholders: {{claimLink}}, {{visitDate}}, {{visitTime}}, {{quantity}}, {{expiresAt}}.
+     */
+    getWaitlistOfferTemplate(language: string = 'it'): EmailTemplate {
+        const templates: Record<string, EmailTemplate> = {
+            it: {
+                subject: 'Si sono liberati dei posti per la tua visita al Museo Zungri 🏛️',
+                html: `
+                    <!DOCTYPE html>
+                    <html lang="it">
+                    <head>
+                        <meta charset="utf-8">
+                        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+                        <title>Posti disponibili</title>
+                        <style>
+                            body { font-family: 'Georgia', serif; line-height: 1.6; color: #333; margin: 0; padding: 0; background-color: #f8f9fa; }
+                            .container { max-width: 600px; margin: 0 auto; background-color: white; }
+                            .header { background: linear-gradient(135deg, #8B5A3C 0%, #A0522D 100%); color: white; padding: 40px 30px; text-align: center; }
+                            .header h1 { margin: 0; font-size: 28px; font-weight: 300; letter-spacing: 2px; }
+                            .content { padding: 40px 30px; text-align: center; }
+                            .content h2 { color: #8B5A3C; margin-top: 0; font-size: 24px; }
+                            .visit { background-color: #f8f9fa; padding: 20px; border-radius: 8px; margin: 25px 0; border-left: 4px solid #8B5A3C; text-align: left; }
+                            .cta-button { background-color: #8B5A3C; color: white; padding: 20px 40px; text-decoration: none; border-radius: 8px; display: inline-block; font-weight: bold; font-size: 16px; margin: 20px 0; }
+                            .link-fallback { background-color: #f8f9fa; padding: 20px; border-radius: 8px; margin: 20px 0; word-break: break-all; font-family: monospace; font-size: 14px; }
+                            .warning { background-color: #fff3cd; border: 1px solid #ffeaa7; padding: 15px; border-radius: 5px; margin: 20px 0; font-size: 14px; }
+                            .footer { background-color: #2c3e50; color: white; padding: 30px; text-align: center; font-size: 14px; }
+                            .footer a { color: #ecf0f1; }
+                        </style>
+                    </head>
+                    <body>
+                        <div class="container">
+                            <div class="header">
+                                <h1>🏛️ MUSEO ZUNGRI</h1>
+                            </div>
+
+                            <div class="content">
+                                <h2>Buone notizie: si sono liberati dei posti!</h2>
+
+                                <p>Eri in lista d'attesa per questa visita:</p>
+
+                                <div class="visit">
+                                    <p><strong>Data:</strong> {{visitDate}}</p>
+                                    <p><strong>Orario:</strong> {{visitTime}}</p>
+                                    <p><strong>Biglietti:</strong> {{quantity}}</p>
+                                </div>
+
+                                <a href="{{claimLink}}" class="cta-button">Prenota ora</a>
+
+                                <p>Se il pulsante non funziona, copia e incolla questo link nel tuo browser:</p>
+
+                                <div class="link-fallback">
+                                    {{claimLink}}
+                                </div>
+
+                                <div class="warning">
+                                    <strong>⏰ Importante:</strong> il link è valido fino alle {{expiresAt}}. Dopo, i posti verranno offerti alla persona successiva in lista.
+                                </div>
+                            </div>
+
+                            <div class="footer">
+                                <p><strong>Museo Zungri</strong></p>
+                                <p>Via Roma, 123 - 89863 Zungri (VV) - Calabria, Italia</p>
+                                <p>📧 <a href="mailto:info@museozungri.it">info@museozungri.it</a></p>
+                            </div>
+                        </div>
+                    </body>
+                    </html>
+                `,
+                text: `
+🏛️ MUSEO ZUNGRI
+
+Buone notizie: si sono liberati dei posti!
+
+Eri in lista d'attesa per questa visita:
+Data: {{visitDate}}
+Orario: {{visitTime}}
+Biglietti: {{quantity}}
+
+Prenota ora da questo link:
+
+{{claimLink}}
+
+⏰ IMPORTANTE: il link è valido fino alle {{expiresAt}}. Dopo, i posti verranno offerti alla persona successiva in lista.
+
+---
+MUSEO ZUNGRI
+Via Roma, 123 - 89863 Zungri (VV) - Calabria, Italia
+📧 info@museozungri.it
+                `
+            },
+            en: {
+                subject: 'Places have opened up for your visit to the Zungri Museum 🏛️',
+                html: `
+                    <!DOCTYPE html>
+                    <html lang="en">
+                    <head>
+                        <meta charset="utf-8">
+                        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+                        <title>Places available</title>
+                        <style>
+                            body { font-family: 'Georgia', serif; line-height: 1.6; color: #333; margin: 0; padding: 0; background-color: #f8f9fa; }
+                            .container { max-width: 600px; margin: 0 auto; background-color: white; }
+                            .header { background: linear-gradient(135deg, #8B5A3C 0%, #A0522D 100%); color: white; padding: 40px 30px; text-align: center; }
+                            .header h1 { margin: 0; font-size: 28px; font-weight: 300; letter-spacing: 2px; }
+                            .content { padding: 40px 30px; text-align: center; }
+                            .content h2 { color: #8B5A3C; margin-top: 0; font-size: 24px; }
+                            .visit { background-color: #f8f9fa; padding: 20px; border-radius: 8px; margin: 25px 0; border-left: 4px solid #8B5A3C; text-align: left; }
+                            .cta-button { background-color: #8B5A3C; color: white; padding: 20px 40px; text-decoration: none; border-radius: 8px; display: inline-block; font-weight: bold; font-size: 16px; margin: 20px 0; }
+                            .link-fallback { background-color: #f8f9fa; padding: 20px; border-radius: 8px; margin: 20px 0; word-break: break-all; font-family: monospace; font-size: 14px; }
+                            .warning { background-color: #fff3cd; border: 1px solid #ffeaa7; padding: 15px; border-radius: 5px; margin: 20px 0; font-size: 14px; }
+                            .footer { background-color: #2c3e50; color: white; padding: 30px; text-align: center; font-size: 14px; }
+                            .footer a { color: #ecf0f1; }
+                        </style>
+                    </head>
+                    <body>
+                        <div class="container">
+                            <div class="header">
+                                <h1>🏛️ ZUNGRI MUSEUM</h1>
+                            </div>
+
+                            <div class="content">
+                                <h2>Good news: places have opened up!</h2>
+
+                                <p>You were on the waitlist for this visit:</p>
+
+                                <div class="visit">
+                                    <p><strong>Date:</strong> {{visitDate}}</p>
+                                    <p><strong>Time:</strong> {{visitTime}}</p>
+                                    <p><strong>Tickets:</strong> {{quantity}}</p>
+                                </div>
+
+                                <a href="{{claimLink}}" class="cta-button">Book now</a>
+
+                                <p>If the button doesn't work, copy and paste this link into your browser:</p>
+
+                                <div class="link-fallback">
+                                    {{claimLink}}
+                                </div>
+
+                                <div class="warning">
+                                    <strong>⏰ Important:</strong> this link is valid until {{expiresAt}}. After that, the places are offered to the next person on the list.
+                                </div>
+                            </div>
+
+                            <div class="footer">
+                                <p><strong>Zungri Museum</strong></p>
+                                <p>Via Roma, 123 - 89863 Zungri (VV) - Calabria, Italy</p>
+                                <p>📧 <a href="mailto:info@museozungri.it">info@museozungri.it</a></p>
+                            </div>
+                        </div>
+                    </body>
+                    </html>
+                `,
+                text: `
+🏛️ ZUNGRI MUSEUM
+
+Good news: places have opened up!
+
+You were on the waitlist for this visit:
+Date: {{visitDate}}
+Time: {{visitTime}}
+Tickets: {{quantity}}
+
+Book now with this link:
+
+{{claimLink}}
+
+⏰ IMPORTANT: this link is valid until {{expiresAt}}. After that, the places are offered to the next person on the list.
+
+---
+ZUNGRI MUSEUM
+Via Roma, 123 - 89863 Zungri (VV) - Calabria, Italy
+📧 info@museozungri.it
+                `
+            }
+        };
+
+        return templates[language] || templates.it;
+    }
+
+    /**
+     * Confirmation of a paid booking, sent with the PDF ticket and the visit's calendar file attached.
+     * Placeholders: {{visitorName}}, {{reference}}, {{visitDate}}, {{visitTime}}, {{tickets}},
+     * {{ticketLink}}, {{manageLink}}.
+     */
+    getBookingConfirmationTemplate(language: string = 'it'): EmailTemplate {
+        const templates: Record<string, EmailTemplate> = {
+            it: {
+                subject: 'La tua visita al Museo Zungri è confermata 🏛️',
+                html: `
+                    <!DOCTYPE html>
+                    <html lang="it">
+                    <head>
+                        <meta charset="utf-8">
+                        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+                        <title>Conferma prenotazione</title>
+                        <style>
+                            body { font-family: 'Georgia', serif; line-height: 1.6; color: #333; margin: 0; padding: 0; background-color: #f8f9fa; }
+                            .container { max-width: 600px; margin: 0 auto; background-color: white; }
+                            .header { background: linear-gradient(135deg, #8B5A3C 0%, #A0522D 100%); color: white; padding: 40px 30px; text-align: center; }
+                            .header h1 { margin: 0; font-size: 28px; font-weight: 300; letter-spacing: 2px; }
+                            .content { padding: 40px 30px; text-align: center; }
+                            .content h2 { color: #8B5A3C; margin-top: 0; font-size: 24px; }
+                            .visit { background-color: #f8f9fa; padding: 20px; border-radius: 8px; margin: 25px 0; border-left: 4px solid #8B5A3C; text-align: left; }
+                            .cta-button { background-color: #8B5A3C; color: white; padding: 20px 40px; text-decoration: none; border-radius: 8px; display: inline-block; font-weight: bold; font-size: 16px; margin: 20px 0; }
+                            .secondary-link { color: #8B5A3C; font-weight: bold; }
+                            .footer { background-color: #2c3e50; color: white; padding: 30px; text-align: center; font-size: 14px; }
+                            .footer a { color: #ecf0f1; }
+                        </style>
+                    </head>
+                    <body>
+                        <div class="container">
+                            <div class="header">
+                                <h1>🏛️ MUSEO ZUNGRI</h1>
+                            </div>
+
+                            <div class="content">
+                                <h2>Grazie, {{visitorName}}: la tua visita è confermata!</h2>
+
+                                <p>Ecco il riepilogo della tua prenotazione:</p>
+
+                                <div class="visit">
+                                    <p><strong>Riferimento:</strong> {{reference}}</p>
+                                    <p><strong>Data:</strong> {{visitDate}}</p>
+                                    <p><strong>Orario:</strong> {{visitTime}}</p>
+                                    <p><strong>Biglietti:</strong> {{tickets}}</p>
+                                </div>
+
+                                <a href="{{ticketLink}}" class="cta-button">Scarica il biglietto</a>
+
+                                <p>Trovi il biglietto anche in allegato: mostra il codice QR all'ingresso, stampato o sul telefono.</p>
+
+                                <p>Apri il file .ics allegato per aggiungere la visita al tuo calendario.</p>
+
+                                <p><a href="{{manageLink}}" class="secondary-link">Devi cambiare orario o annullare? Gestisci la prenotazione</a></p>
+                            </div>
+
+                            <div class="footer">
+                                <p><strong>Museo Zungri</strong></p>
+                                <p>Via Roma, 123 - 89863 Zungri (VV) - Calabria, Italia</p>
+                                <p>📧 <a href="mailto:info@museozungri.it">info@museozungri.it</a></p>
+                            </div>
+                        </div>
+                    </body>
+                    </html>
+                `,
+                text: `
+🏛️ MUSEO ZUNGRI
+
+Grazie, {{visitorName}}: la tua visita è confermata!
+
+Riferimento: {{reference}}
+Data: {{visitDate}}
+Orario: {{visitTime}}
+Biglietti: {{tickets}}
+
+Il biglietto è in allegato. Puoi scaricarlo anche da qui:
+
+{{ticketLink}}
+
+Mostra il codice QR all'ingresso, stampato o sul telefono.
+
+Apri il file .ics allegato per aggiungere la visita al tuo calendario.
+
+Devi cambiare orario o annullare? Gestisci la prenotazione qui:
+
+{{manageLink}}
+
+---
+MUSEO ZUNGRI
+Via Roma, 123 - 89863 Zungri (VV) - Calabria, Italia
+📧 info@museozungri.it
+                `
+            },
+            en: {
+                subject: 'Your visit to the Zungri Museum is confirmed 🏛️',
+                html: `
+                    <!DOCTYPE html>
+                    <html lang="en">
+                    <head>
+                        <meta charset="utf-8">
+                        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+                        <title>Booking confirmation</title>
+                        <style>
+                            body { font-family: 'Georgia', serif; line-height: 1.6; color: #333; margin: 0; padding: 0; background-color: #f8f9fa; }
+                            .container { max-width: 600px; margin: 0 auto; background-color: white; }
+                            .header { background: linear-gradient(135deg, #8B5A3C 0%, #A0522D 100%); color: white; padding: 40px 30px; text-align: center; }
+                            .header h1 { margin: 0; font-size: 28px; font-weight: 300; letter-spacing: 2px; }
+                            .content { padding: 40px 30px; text-align: center; }
+                            .content h2 { color: #8B5A3C; margin-top: 0; font-size: 24px; }
+                            .visit { background-color: #f8f9fa; padding: 20px; border-radius: 8px; margin: 25px 0; border-left: 4px solid #8B5A3C; text-align: left; }
+                            .cta-button { background-color: #8B5A3C; color: white; padding: 20px 40px; text-decoration: none; border-radius: 8px; display: inline-block; font-weight: bold; font-size: 16px; margin: 20px 0; }
+                            .secondary-link { color: #8B5A3C; font-weight: bold; }
+                            .footer { background-color: #2c3e50; color: white; padding: 30px; text-align: center; font-size: 14px; }
+                            .footer a { color: #ecf0f1; }
+                        </style>
+                    </head>
+                    <body>
+                        <div class="container">
+                            <div class="header">
+                                <h1>🏛️ ZUNGRI MUSEUM</h1>
+                            </div>
+
+                            <div class="content">
+                                <h2>Thank you, {{visitorName}}: your visit is confirmed!</h2>
+
+                                <p>Here is a summary of your booking:</p>
+
+                                <div class="visit">
+                                    <p><strong>Reference:</strong> {{reference}}</p>
+                                    <p><strong>Date:</strong> {{visitDate}}</p>
+                                    <p><strong>Time:</strong> {{visitTime}}</p>
+                                    <p><strong>Tickets:</strong> {{tickets}}</p>
+                                </div>
+
+                                <a href="{{ticketLink}}" class="cta-button">Download your ticket</a>
+
+                                <p>Your ticket is also attached: show its QR code at the entrance, printed or on your phone.</p>
+
+                                <p>Open the attached .ics file to add the visit to your calendar.</p>
+
+                                <p><a href="{{manageLink}}" class="secondary-link">Need to change the time or cancel? Manage your booking</a></p>
+                            </div>
+
+                            <div class="footer">
+                                <p><strong>Zungri Museum</strong></p>
+                                <p>Via Roma, 123 - 89863 Zungri (VV) - Calabria, Italy</p>
+                                <p>📧 <a href="mailto:info@museozungri.it">info@museozungri.it</a></p>
+                            </div>
+                        </div>
+                    </body>
+                    </html>
+                `,
+                text: `
+🏛️ ZUNGRI MUSEUM
+
+Thank you, {{visitorName}}: your visit is confirmed!
+
+Reference: {{reference}}
+Date: {{visitDate}}
+Time: {{visitTime}}
+Tickets: {{tickets}}
+
+Your ticket is attached. You can also download it here:
+
+{{ticketLink}}
+
+Show its QR code at the entrance, printed or on your phone.
+
+Open the attached .ics file to add the visit to your calendar.
+
+Need to change the time or cancel? Manage your booking here:
+
+{{manageLink}}
+
+---
+ZUNGRI MUSEUM
+Via Roma, 123 - 89863 Zungri (VV) - Calabria, Italy
+📧 info@museozungri.it
+                `
+            }
+        };
+
+        return templates[language] || templates.it;
+    }
+    getGiftVoucherTemplate(language: string = 'it'): EmailTemplate {
+        const templates: Record<string, EmailTemplate> = {
+            it: {
+                subject: 'Il tuo buono regalo del Museo Zungri 🎁',
+                html: `
+                    <!DOCTYPE html>
+                    <html lang="it">
+                    <head>
+                        <meta charset="utf-8">
+                        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+                        <title>Buono regalo</title>
+                        <style>
+                            body { font-family: 'Georgia', serif; line-height: 1.6; color: #333; margin: 0; padding: 0; background-color: #f8f9fa; }
+                            .container { max-width: 600px; margin: 0 auto; background-color: white; }
+                            .header { background: linear-gradient(135deg, #8B5A3C 0%, #A0522D 100%); color: white; padding: 40px 30px; text-align: center; }
+                            .header h1 { margin: 0; font-size: 28px; font-weight: 300; letter-spacing: 2px; }
+                            .content { padding: 40px 30px; text-align: center; }
+                            .content h2 { color: #8B5A3C; margin-top: 0; font-size: 24px; }
+                            .voucher { background-color: #f8f9fa; padding: 20px; border-radius: 8px; margin: 25px 0; border-left: 4px solid #8B5A3C; text-align: left; }
+                            .code { font-family: 'Courier New', monospace; font-size: 22px; font-weight: bold; letter-spacing: 2px; color: #8B5A3C; }
+                            .footer { background-color: #2c3e50; color: white; padding: 30px; text-align: center; font-size: 14px; }
+                            .footer a { color: #ecf0f1; }
+                        </style>
+                    </head>
+                    <body>
+                        <div class="container">
+                            <div class="header">
+                                <h1>🏛️ MUSEO ZUNGRI</h1>
+                            </div>
+
+                            <div class="content">
+                                <h2>Grazie, {{buyerName}}: ecco il tuo buono regalo!</h2>
+
+                                <p>Il buono è pronto da regalare. Lo trovi in allegato in PDF, da stampare o inoltrare.</p>
+
+                                <div class="voucher">
+                                    <p><strong>Codice:</strong> <span class="code">{{code}}</span></p>
+                                    <p><strong>Valore:</strong> {{amount}}</p>
+                                    <p><strong>Per:</strong> {{recipientName}}</p>
+                                    <p><strong>Data di consegna:</strong> {{deliveryDate}}</p>
+                                    <p><strong>Valido fino al:</strong> {{validUntil}}</p>
+                                </div>
+
+                                <p>Il codice si usa al momento del pagamento su museozungri.it, anche in più volte: il credito non speso resta sul buono.</p>
+
+                                <p>Conserva questa email: il codice è l'unico modo per usare il buono.</p>
+                            </div>
+
+                            <div class="footer">
+                                <p><strong>Museo Zungri</strong></p>
+                                <p>Via Roma, 123 - 89863 Zungri (VV) - Calabria, Italia</p>
+                                <p>📧 <a href="mailto:info@museozungri.it">info@museozungri.it</a></p>
+                            </div>
+                        </div>
+                    </body>
+                    </html>
+                `,
+                text: `
+🏛️ MUSEO ZUNGRI
+
+Grazie, {{buyerName}}: ecco il tuo buono regalo!
+
+Il buono è pronto da regalare. Lo trovi in allegato in PDF, da stampare o inoltrare.
+
+Codice: {{code}}
+Valore: {{amount}}
+Per: {{recipientName}}
+Data di consegna: {{deliveryDate}}
+Valido fino al: {{validUntil}}
+
+Il codice si usa al momento del pagamento su museozungri.it, anche in più volte: il credito non speso resta sul buono.
+
+Conserva questa email: il codice è l'unico modo per usare il buono.
+
+---
+MUSEO ZUNGRI
+Via Roma, 123 - 89863 Zungri (VV) - Calabria, Italia
+📧 info@museozungri.it
+                `
+            },
+            en: {
+                subject: 'Your Zungri Museum gift voucher 🎁',
+                html: `
+                    <!DOCTYPE html>
+                    <html lang="en">
+                    <head>
+                        <meta charset="utf-8">
+                        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+                        <title>Gift voucher</title>
+                        <style>
+                            body { font-family: 'Georgia', serif; line-height: 1.6; color: #333; margin: 0; padding: 0; background-color: #f8f9fa; }
+                            .container { max-width: 600px; margin: 0 auto; background-color: white; }
+                            .header { background: linear-gradient(135deg, #8B5A3C 0%, #A0522D 100%); color: white; padding: 40px 30px; text-align: center; }
+                            .header h1 { margin: 0; font-size: 28px; font-weight: 300; letter-spacing: 2px; }
+                            .content { padding: 40px 30px; text-align: center; }
+                            .content h2 { color: #8B5A3C; margin-top: 0; font-size: 24px; }
+                            .voucher { background-color: #f8f9fa; padding: 20px; border-radius: 8px; margin: 25px 0; border-left: 4px solid #8B5A3C; text-align: left; }
+                            .code { font-family: 'Courier New', monospace; font-size: 22px; font-weight: bold; letter-spacing: 2px; color: #8B5A3C; }
+                            .footer { background-color: #2c3e50; color: white; padding: 30px; text-align: center; font-size: 14px; }
+                            .footer a { color: #ecf0f1; }
+                        </style>
+                    </head>
+                    <body>
+                        <div class="container">
+                            <div class="header">
+                                <h1>🏛️ ZUNGRI MUSEUM</h1>
+                            </div>
+
+                            <div class="content">
+                                <h2>Thank you, {{buyerName}}: here is your gift voucher!</h2>
+
+                                <p>The voucher is ready to give. It is attached as a PDF, to print or forward.</p>
+
+                                <div class="voucher">
+                                    <p><strong>Code:</strong> <span class="code">{{code}}</span></p>
+                                    <p><strong>Value:</strong> {{amount}}</p>
+                                    <p><strong>For:</strong> {{recipientName}}</p>
+                                    <p><strong>Delivery date:</strong> {{deliveryDate}}</p>
+                                    <p><strong>Valid until:</strong> {{validUntil}}</p>
+                                </div>
+
+                                <p>The code is entered at checkout on museozungri.it and can be spent over several visits: any credit left stays on the voucher.</p>
+
+                                <p>Keep this email: the code is the only way to use the voucher.</p>
+                            </div>
+
+                            <div class="footer">
+                                <p><strong>Zungri Museum</strong></p>
+                                <p>Via Roma, 123 - 89863 Zungri (VV) - Calabria, Italy</p>
+                                <p>📧 <a href="mailto:info@museozungri.it">info@museozungri.it</a></p>
+                            </div>
+                        </div>
+                    </body>
+                    </html>
+                `,
+                text: `
+🏛️ ZUNGRI MUSEUM
+
+Thank you, {{buyerName}}: here is your gift voucher!
+
+The voucher is ready to give. It is attached as a PDF, to print or forward.
+
+Code: {{code}}
+Value: {{amount}}
+For: {{recipientName}}
+Delivery date: {{deliveryDate}}
+Valid until: {{validUntil}}
+
+The code is entered at checkout on museozungri.it and can be spent over several visits: any credit left stays on the voucher.
+
+Keep this email: the code is the only way to use the voucher.
+
+---
+ZUNGRI MUSEUM
+Via Roma, 123 - 89863 Zungri (VV) - Calabria, Italy
+📧 info@museozungri.it
+                `
+            }
+        };
+
+        return templates[language] || templates.it;
+    }
 }
 
 export const emailTemplates = new EmailTemplates();
\ No newline at end of file
@@ -0,0 +1,99 @@
+// File: frontend/src/lib/server/giftVoucherDelivery.ts
+import type { GiftVoucher, Order } from '$lib/api/apiClient';
+import { emailService } from '$lib/server/emailService';
+import { renderGiftVoucherPdf } from '$lib/server/giftVoucherPdf';
+import { logger } from '$lib/server/logger';
+import { redis } from '$lib/server/redis';
+import { formatDayKey, museumDayOf } from '$lib/utils/museumTime';
+
+/**
+ * Sends the gift vouchers of a paid order to their buyer: one email per voucher, with its code
+ * and a printable PDF attached. Emailing the recipient on the delivery date is the backend's job.
+ *
+ * Like booking confirmations, each voucher is sent once: a key in Redis per voucher code records
+ * the send, for every server instance and every trigger (see `orderDelivery.ts`).
+ */
+
+/** How long a sent voucher is remembered; longer than any voucher stays valid. */
+const SENT_TTL_SECONDS = 2 * 365 * 24 * 60 * 60;
+
+const sentKey = (code: string) => `sent:gift-voucher:${code}`;
+
+/** File name of a gift voucher's PDF. */
+export function giftVoucherFileName(voucher: GiftVoucher): string {
+    return `buono-regalo-museo-zungri-${voucher.code}.pdf`;
+}
+
+/**
+ * Renders a gift voucher's PDF.
+ * @param voucher The voucher, as returned with its order
+ * @param language Language of the voucher's labels and dates
+ */
+export async function createGiftVoucherPdf(voucher: GiftVoucher, language: string): Promise<Uint8Array> {
+    return renderGiftVoucherPdf({
+        language,
+        code: voucher.code,
+        amount: formatAmount(voucher.initial_amount, language),
+        recipientName: voucher.recipient_name,
+        senderName: voucher.sender_name,
+        message: voucher.message,
+        validUntil: formatDayKey(museumDayOf(voucher.expires_at), locale(language))
+    });
+}
+
+/**
+ * Emails each gift voucher bought with an order to its buyer, unless it has already been sent.
+ * Failures are logged and not rethrown; the vouchers not sent are tried again on the next call.
+ * @param order The paid order
+ * @param language Language of the emails and vouchers
+ * @returns False when a voucher could not be sent
+ */
+export async function sendGiftVouchers(order: Order, language: string): Promise<boolean> {
+    if (!order.customer_email || order.payment_status !== 'PAID') return true;
+
+    let allSent = true;
+    for (const voucher of order.gift_vouchers ?? []) {
+        try {
+            // Claimed before sending, so concurrent triggers cannot both send it
+            const isFirst = await redis.set(sentKey(voucher.code), new Date().toISOString(), 'EX', SENT_TTL_SECONDS, 'NX');
+            if (!isFirst) continue;
+        } catch (error) {
+            logger.warn('Gift voucher not sent: send log unavailable', {
+                orderId: order.id,
+                error: error instanceof Error ? error.message : String(error)
+            });
+            allSent = false;
+            continue;
+        }
+
+        try {
+            await emailService.sendGiftVoucherEmail(order.customer_email, {
+                language,
+                buyerName: order.customer_name ?? order.customer_email,
+                recipientName: voucher.recipient_name,
+                code: voucher.code,
+                amount: formatAmount(voucher.initial_amount, language),
+                deliveryDate: formatDayKey(voucher.delivery_date, locale(language)),
+                validUntil: formatDayKey(museumDayOf(voucher.expires_at), locale(language)),
+                voucherPdf: { filename: giftVoucherFileName(voucher), content: await createGiftVoucherPdf(voucher, language) }
+            });
+        } catch (error) {
+            // Let the next trigger try again
+            await redis.del(sentKey(voucher.code)).catch(() => undefined);
+            logger.warn('Gift voucher not sent', {
+                orderId: order.id,
+                error: error instanceof Error ? error.message : String(error)
+            });
+            allSent = false;
+        }
+    }
+    return allSent;
+}
+
+function locale(language: string): string {
+    return language === 'it' ? 'it-IT' : 'en-GB';
+}
+
+function formatAmount(amount: number, language: string): string {
+    return new Intl.NumberFormat(locale(language), { style: 'currency', currency: 'EUR' }).format(amount);
+}
@@ -0,0 +1,112 @@
+// File: frontend/src/lib/server/giftVoucherPdf.ts
+import { PDFDocument, StandardFonts, rgb } from 'pdf-lib';
+import { BRAND, drawLine, drawQrCode, MARGIN, MUTED, PAGE_HEIGHT, PAGE_WIDTH, TEXT } from '$lib/server/ticketPdf';
+
+/**
+ * Renders a gift voucher as a one-page PDF to print and give, laid out like the PDF tickets.
+ * The QR code holds the voucher's code, so staff can read it at the desk as well as type it.
+ */
+
+/** Content of one voucher, already formatted for display. */
+export interface GiftVoucherPdfContent {
+    language: string;
+    code: string;
+    amount: string;
+    recipientName: string;
+    senderName?: string;
+    message?: string;
+    validUntil: string;
+}
+
+type VoucherLabels = Record<'title' | 'for' | 'from' | 'amount' | 'code' | 'validUntil' | 'redeem', string>;
+
+const labels: Record<string, VoucherLabels> = {
+    it: {
+        title: 'Buono regalo',
+        for: 'Per',
+        from: 'Da',
+        amount: 'Valore',
+        code: 'Codice',
+        validUntil: 'Valido fino al',
+        redeem: 'Inserisci il codice al momento del pagamento su museozungri.it, o mostralo in biglietteria. Il credito non speso resta sul buono.'
+    },
+    en: {
+        title: 'Gift voucher',
+        for: 'For',
+        from: 'From',
+        amount: 'Value',
+        code: 'Code',
+        validUntil: 'Valid until',
+        redeem: 'Enter the code at checkout on museozungri.it, or show it at the ticket desk. Any credit left stays on the voucher.'
+    }
+};
+
+const QR_SIZE = 140;
+/** Characters per line of the printed message. */
+const MESSAGE_LINE_LENGTH = 70;
+
+/**
+ * Builds the PDF for one gift voucher.
+ * @returns The PDF file's bytes
+ */
+export async function renderGiftVoucherPdf(content: GiftVoucherPdfContent): Promise<Uint8Array> {
+    const text = labels[content.language] ?? labels.it;
+    const pdf = await PDFDocument.create();
+    pdf.setTitle(`${text.title} ${content.code} - Museo Zungri`);
+    pdf.setAuthor('Museo Zungri');
+    pdf.setLanguage(content.language);
+
+    const page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    const regular = await pdf.embedFont(StandardFonts.Helvetica);
+    const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+    const italic = await pdf.embedFont(StandardFonts.HelveticaOblique);
+
+    // Header band
+    page.drawRectangle({ x: 0, y: PAGE_HEIGHT - 90, width: PAGE_WIDTH, height: 90, color: BRAND });
+    drawLine(page, 'MUSEO ZUNGRI', bold, 22, MARGIN, PAGE_HEIGHT - 48, rgb(1, 1, 1));
+    drawLine(page, text.title, regular, 12, MARGIN, PAGE_HEIGHT - 70, rgb(1, 1, 1));
+
+    let y = PAGE_HEIGHT - 150;
+    drawLine(page, text.amount.toUpperCase(), bold, 8, MARGIN, y, MUTED);
+    drawLine(page, content.amount, bold, 40, MARGIN, y - 44, BRAND);
+    y -= 84;
+
+    const field = (label: string, value: string) => {
+        drawLine(page, label.toUpperCase(), bold, 8, MARGIN, y, MUTED);
+        drawLine(page, value, regular, 14, MARGIN, y - 18, TEXT);
+        y -= 44;
+    };
+
+    field(text.for, content.recipientName);
+    if (content.senderName) field(text.from, content.senderName);
+    if (content.message) {
+        for (const line of wrap(`"${content.message}"`, MESSAGE_LINE_LENGTH)) {
+            drawLine(page, line, italic, 12, MARGIN, y, TEXT);
+            y -= 16;
+        }
+        y -= 12;
+    }
+    field(text.code, content.code);
+    field(text.validUntil, content.validUntil);
+
+    drawQrCode(page, content.code, (PAGE_WIDTH - QR_SIZE) / 2, MARGIN + 60, QR_SIZE);
+    drawLine(page, text.redeem, regular, 8, MARGIN, MARGIN + 36, MUTED, PAGE_WIDTH - 2 * MARGIN);
+    drawLine(page, 'Via Roma, 123 - 89863 Zungri (VV) - info@museozungri.it', regular, 8, MARGIN, MARGIN, MUTED);
+
+    return pdf.save();
+}
+
+/** Splits text into lines of at most `width` characters, breaking between words. */
+function wrap(value: string, width: number): string[] {
+    const lines: string[] = [];
+    let line = '';
+    for (const word of value.split(/\s+/)) {
+        if (line && line.length + word.length + 1 > width) {
+            lines.push(line);
+            line = word;
+        } else {
+            line = line ? `${line} ${word}` : word;
+        }
+    }
+    return line ? [...lines, line] : lines;
+}
@@ -1,5 +1,6 @@
 // File: frontend/src/lib/server/logger.ts
 import { dev } from '$app/environment';
+import { getRequestId } from './requestContext';
 
 type LogLevel = 'info' | 'warn' | 'error' | 'debug';
 
@@ -7,6 +8,7 @@ interface LogEntry {
     level: LogLevel;
     message: string;
     timestamp: string;
+    requestId?: string;
     context?: Record<string, any>;
 }
 
@@ -16,13 +18,14 @@ class Logger {
             level,
             message,
             timestamp: new Date().toISOString(),
+            requestId: getRequestId(),
             context
         };
     }
 
     private output(entry: LogEntry): void {
         const logMessage = dev
-            ? `[${entry.timestamp}] ${entry.level.toUpperCase()}: ${entry.message}${entry.context ? '\n' + JSON.stringify(entry.context, null, 2) : ''}`
+            ? `[${entry.timestamp}]${entry.requestId ? ` [${entry.requestId}]` : ''} ${entry.level.toUpperCase()}: ${entry.message}${entry.context ? '\n' + JSON.stringify(entry.context, null, 2) : ''}`
             : JSON.stringify(entry);
 
         switch (entry.level) {
@@ -0,0 +1,1021 @@
+/**
+ * @file mockBackend.ts
+ * @purpose In-process stand-in for the FastAPI `/api/v1` service, for offline development and demos.
+ *
+ * @dependencies
+ * - $lib/api/apiClient: Response types shared with the real backend.
+ * - $lib/data/mockMerchandise, mockTickets, mockContent: Seed data shared with the offline fallbacks.
+ * - $lib/schemas/payment: Request payload types.
+ * - $lib/server/availabilityPublisher: Pushes capacity changes to pages watching a day.
+ * - $lib/server/bookingAccess: Signed booking links, checked on visitor cancellations and reschedules.
+ * - $lib/utils/bookingPolicy: Booking references and the window for visitor changes.
+ * - $lib/utils/museumTime: Slot times and "today" on the museum's (Europe/Rome) clock.
+ * - $lib/utils/pricing: Prices line items for their visit day, as the booking wizard shows them.
+ * - $lib/utils/promoCodes: Takes promo code discounts off orders, as checkout shows them.
+ * - $lib/utils/openingCalendar: Closed days have no time slots; special openings get an extra one.
+ * - $lib/utils/giftVouchers: Checks vouchers bought and spends those redeemed, as the shop and checkout do.
+ *
+ * @notes
+ * - Enabled with `MOCK_API=true` (see `hooks.server.ts`); the Vite dev proxy steps aside when it is set.
+ * - Covers every route `ApiClient` calls: content, contact, ticket types, pricing rules, the opening calendar, time slots,
+ *   availability, merchandise, bookings (including lookup, cancel, reschedule and check-in), payment
+ *   intents, `simulate-success`, gift voucher payments and lookups, the order of a payment intent and the
+ *   signed-in user.
+ * - State lives in module memory for the lifetime of the server process. Confirmed bookings really
+ *   decrement `available_slots` and merchandise inventory; a restart resets everything.
+ * - Every capacity change (bookings, cancellations, reschedules, holds) is published at once to the
+ *   availability stream, so the booking wizard can be watched updating live.
+ * - Errors use FastAPI's `{ detail }` shape and status codes so client error handling is exercised as-is.
+ * - POSTs honor `Idempotency-Key`: a replayed key returns the first response without side effects.
+ * - Seat holds take places out of a slot for `SEAT_HOLD_MINUTES`; expired holds are swept on every request.
+ * - Group bookings take one place per participant and stay PENDING, even once paid, until staff confirm them.
+ * - Visitors cancel or reschedule with the token from their booking link (see `bookingAccess.ts`), within
+ *   the window in `bookingPolicy.ts`.
+ * - Promo codes are seeded in `promoCodes`; a use is counted when an order paid with the code succeeds.
+ * - Gift vouchers are issued when the order buying them is paid, and one demo voucher is seeded. Orders a
+ *   voucher covers in full are settled by `/payments/gift-voucher` without a card. No emails are sent.
+ * - Any bearer token signs in as `MOCK_STAFF_USER`, so staff tooling (confirmations, check-in) can be tried out.
+ */
+
+import type {
+    Booking,
+    BookingLineItem,
+    DateAvailability,
+    GiftVoucher,
+    Language,
+    Merchandise,
+    Order,
+    PageContent,
+    PricingRule,
+    PromoCode,
+    SeatHold,
+    TicketType,
+    TimeSlot,
+    User
+} from '$lib/api/apiClient';
+import type {
+    BookingCreate,
+    BookingLineItemCreate,
+    GiftVoucherCreate,
+    GroupBookingCreate,
+    OrderCreatePayload,
+    SeatHoldCreate
+} from '$lib/schemas/payment';
+import { getMockMerchandise } from '$lib/data/mockMerchandise';
+import { getMockOpeningCalendar, getMockPricingRules, getMockTicketTypes } from '$lib/data/mockTickets';
+import { mockLanguages, mockPageContents } from '$lib/data/mockContent';
+import { availabilityPublisher } from '$lib/server/availabilityPublisher';
+import { verifyBookingAccess } from '$lib/server/bookingAccess';
+import { bookingReference, canChangeBooking, CHANGE_CUTOFF_HOURS } from '$lib/utils/bookingPolicy';
+import {
+    GIFT_VOUCHER_VALIDITY_MONTHS,
+    isGiftVoucherRedeemable,
+    normalizeGiftVoucherCode,
+    redeemGiftVoucher,
+    validateGiftVoucherPurchase
+} from '$lib/utils/giftVouchers';
+import { museumTimeToIso, museumToday, weekdayOf } from '$lib/utils/museumTime';
+import { openingOf } from '$lib/utils/openingCalendar';
+import { priceTicket } from '$lib/utils/pricing';
+import { applyPromoCode, isPromoCodeUsable, normalizePromoCode } from '$lib/utils/promoCodes';
+
+const API_PREFIX = '/api/v1';
+const SEED_TIMESTAMP = '2024-01-01T09:00:00Z';
+
+/** Daily schedule: start time and duration in minutes. Closing days are in the opening calendar. */
+const DAILY_SCHEDULE = [
+    { start: '09:30', minutes: 75 },
+    { start: '11:00', minutes: 75 },
+    { start: '14:30', minutes: 75 },
+    { start: '16:00', minutes: 75 }
+];
+const SLOT_CAPACITY = 20;
+const SEAT_HOLD_MINUTES = 10;
+/** Smallest group for group ticket types that do not set `min_group_size`. */
+const DEFAULT_MIN_GROUP_SIZE = 2;
+/** Characters of generated gift voucher codes, without look-alikes such as 0/O and 1/I. */
+const GIFT_VOUCHER_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+const MOCK_STAFF_USER: User = {
+    id: 'user-staff',
+    email: 'staff@museozungri.it',
+    name: 'Staff Museo',
+    role: 'Staff',
+    created_at: SEED_TIMESTAMP,
+    updated_at: SEED_TIMESTAMP
+};
+
+class MockApiError extends Error {
+    constructor(public status: number, public detail: string) {
+        super(detail);
+        this.name = 'MockApiError';
+    }
+}
+
+interface PaymentIntent {
+    id: string;
+    clientSecret: string;
+    payload: OrderCreatePayload;
+    amount: number;
+    status: 'requires_payment' | 'succeeded';
+    orderId?: string;
+}
+
+// --- IN-MEMORY STATE ---
+
+const ticketTypes: TicketType[] = getMockTicketTypes();
+const pricingRules: PricingRule[] = getMockPricingRules();
+const languages: Language[] = structuredClone(mockLanguages);
+const pageContents = new Map<string, PageContent>(
+    structuredClone(mockPageContents).map((page) => [`${page.slug}/${page.language_code}`, page])
+);
+
+/** Slots are generated lazily per ticket type and date, then kept so capacity changes persist. */
+const timeSlots = new Map<string, TimeSlot>();
+const merchandise: Merchandise[] = structuredClone(getMockMerchandise());
+const bookings = new Map<string, Booking>();
+const orders = new Map<string, Order>();
+const paymentIntents = new Map<string, PaymentIntent>();
+const seatHolds = new Map<string, SeatHold>();
+const idempotentResponses = new Map<string, { status: number; body: unknown }>();
+
+/** Demo promo codes: one of each scope, one with limited uses and one expired. */
+const seedPromoCodes: PromoCode[] = [
+    { code: 'BENVENUTO10', discount_type: 'percent', value: 10, applies_to: 'all' },
+    { code: 'SCUOLE5', discount_type: 'amount', value: 5, applies_to: 'tickets', uses_remaining: 20 },
+    {
+        code: 'SHOP15',
+        discount_type: 'percent',
+        value: 15,
+        applies_to: 'merchandise',
+        expires_at: new Date(Date.now() + 90 * 86_400_000).toISOString()
+    },
+    { code: 'ESTATE2024', discount_type: 'amount', value: 3, applies_to: 'all', expires_at: '2024-09-30T22:00:00Z' }
+];
+const promoCodes = new Map(seedPromoCodes.map((promo) => [promo.code, promo]));
+
+/** Gift vouchers by code. A demo voucher with part of its balance spent is there from the start. */
+const giftVouchers = new Map<string, GiftVoucher>([
+    [
+        'MZ-DEMO-2025',
+        {
+            code: 'MZ-DEMO-2025',
+            initial_amount: 50,
+            balance: 32,
+            recipient_name: 'Visitatore Demo',
+            message: 'Buona visita!',
+            delivery_date: SEED_TIMESTAMP.slice(0, 10),
+            expires_at: new Date(Date.now() + 180 * 86_400_000).toISOString(),
+            created_at: SEED_TIMESTAMP
+        }
+    ]
+]);
+
+// --- ROUTING ---
+
+type RouteHandler = (ctx: {
+    params: string[];
+    url: URL;
+    body: unknown;
+    authorized: boolean;
+}) => unknown;
+
+interface Route {
+    method: string;
+    pattern: RegExp;
+    handler: RouteHandler;
+    status?: number;
+}
+
+const routes: Route[] = [
+    { method: 'GET', pattern: /^\/health$/, handler: () => ({ status: 'ok (mock)' }) },
+    { method: 'GET', pattern: /^\/users\/me$/, handler: ({ authorized }) => (requireAuth(authorized), MOCK_STAFF_USER) },
+
+    // Content
+    { method: 'POST', pattern: /^\/content\/contact$/, handler: ({ body }) => submitContact(body) },
+    {
+        method: 'GET',
+        pattern: /^\/content\/admin\/languages$/,
+        handler: ({ authorized }) => (requireAuth(authorized), languages)
+    },
+    {
+        method: 'POST',
+        pattern: /^\/content\/admin\/content$/,
+        handler: ({ body, authorized }) => (requireAuth(authorized), createContent(body)),
+        status: 201
+    },
+    {
+        method: 'PUT',
+        pattern: /^\/content\/admin\/content\/([^/]+)$/,
+        handler: ({ params, body, authorized }) => (requireAuth(authorized), updateContent(params[0], body))
+    },
+    { method: 'GET', pattern: /^\/content\/([^/]+)\/([^/]+)$/, handler: ({ params }) => getContent(params[0], params[1]) },
+
+    // Tickets
+    { method: 'GET', pattern: /^\/tickets\/types$/, handler: () => ticketTypes },
+    { method: 'GET', pattern: /^\/tickets\/pricing-rules$/, handler: () => pricingRules },
+    { method: 'GET', pattern: /^\/tickets\/opening-calendar$/, handler: () => getMockOpeningCalendar() },
+    {
+        method: 'GET',
+        pattern: /^\/tickets\/time-slots\/([^/]+)$/,
+        handler: ({ params, url }) => getTimeSlots(params[0], requireDateParam(url, 'date'))
+    },
+    {
+        method: 'GET',
+        pattern: /^\/tickets\/availability\/([^/]+)$/,
+        handler: ({ params, url }) =>
+            getAvailability(params[0], requireDateParam(url, 'from'), requireDateParam(url, 'to'))
+    },
+
+    // Merchandise
+    { method: 'GET', pattern: /^\/merchandise$/, handler: () => merchandise },
+    { method: 'GET', pattern: /^\/merchandise\/([^/]+)$/, handler: ({ params }) => getMerchandiseItem(params[0]) },
+
+    // Bookings
+    {
+        method: 'POST',
+        pattern: /^\/bookings\/holds$/,
+        handler: ({ body }) => createSeatHold(body as SeatHoldCreate),
+        status: 201
+    },
+    {
+        method: 'DELETE',
+        pattern: /^\/bookings\/holds\/([^/]+)$/,
+        handler: ({ params }) => releaseSeatHold(params[0])
+    },
+    { method: 'POST', pattern: /^\/bookings$/, handler: ({ body }) => createBooking(body as BookingCreate, 'PENDING'), status: 201 },
+    {
+        method: 'GET',
+        pattern: /^\/bookings\/lookup$/,
+        handler: ({ url }) => lookupBooking(url.searchParams.get('reference'), url.searchParams.get('email'))
+    },
+    { method: 'GET', pattern: /^\/bookings\/([^/]+)$/, handler: ({ params }) => getBooking(params[0]) },
+    {
+        method: 'POST',
+        pattern: /^\/bookings\/([^/]+)\/confirm$/,
+        handler: ({ params, authorized }) => (requireAuth(authorized), confirmBooking(params[0]))
+    },
+    {
+        method: 'POST',
+        pattern: /^\/bookings\/([^/]+)\/check-in$/,
+        handler: ({ params, body, authorized }) =>
+            (requireAuth(authorized), checkInBooking(params[0], body as { checked_in_at?: string }))
+    },
+    {
+        method: 'POST',
+        pattern: /^\/bookings\/([^/]+)\/cancel$/,
+        handler: ({ params, body }) => cancelBooking(params[0], body as { token?: string })
+    },
+    {
+        method: 'POST',
+        pattern: /^\/bookings\/([^/]+)\/reschedule$/,
+        handler: ({ params, body }) => rescheduleBooking(params[0], body as { time_slot_id?: string; token?: string })
+    },
+
+    // Payments
+    {
+        method: 'POST',
+        pattern: /^\/payments\/create-payment-intent$/,
+        handler: ({ body }) => createPaymentIntent(body as OrderCreatePayload)
+    },
+    {
+        method: 'POST',
+        pattern: /^\/payments\/simulate-success$/,
+        handler: ({ body }) => simulatePaymentSuccess(body as { payment_intent_id?: string })
+    },
+    {
+        method: 'POST',
+        pattern: /^\/payments\/gift-voucher$/,
+        handler: ({ body }) => payWithGiftVoucher(body as OrderCreatePayload)
+    },
+    { method: 'GET', pattern: /^\/payments\/([^/]+)\/order$/, handler: ({ params }) => getPaymentOrder(params[0]) },
+
+    // Gift vouchers
+    {
+        method: 'GET',
+        pattern: /^\/gift-vouchers\/([^/]+)$/,
+        handler: ({ params }) => findRedeemableGiftVoucher(decodeURIComponent(params[0]))
+    },
+
+    // Promo codes
+    {
+        method: 'POST',
+        pattern: /^\/promo-codes\/validate$/,
+        handler: ({ body }) => findUsablePromoCode((body as { code?: string } | undefined)?.code)
+    }
+];
+
+/**
+ * Serves one `/api/v1` request from the in-memory backend.
+ * @param request The incoming request (its path must start with `/api/v1`)
+ * @returns A JSON response shaped like FastAPI's
+ */
+export async function handleMockApiRequest(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const path = url.pathname.slice(API_PREFIX.length).replace(/\/$/, '') || '/';
+    const method = request.method.toUpperCase();
+
+    sweepExpiredSeatHolds();
+
+    const idempotencyKey = method !== 'GET' ? request.headers.get('idempotency-key') : null;
+    const replayKey = idempotencyKey ? `${method} ${path} ${idempotencyKey}` : null;
+    if (replayKey && idempotentResponses.has(replayKey)) {
+        const replay = idempotentResponses.get(replayKey)!;
+        return jsonResponse(replay.body, replay.status);
+    }
+
+    const candidates = routes.filter((route) => route.pattern.test(path));
+    const route = candidates.find((candidate) => candidate.method === method);
+
+    if (!route) {
+        return candidates.length > 0
+            ? jsonResponse({ detail: 'Method Not Allowed' }, 405)
+            : jsonResponse({ detail: 'Not Found' }, 404);
+    }
+
+    try {
+        const body = method === 'GET' ? undefined : await request.json().catch(() => undefined);
+        const result = route.handler({
+            params: path.match(route.pattern)!.slice(1).map(decodeURIComponent),
+            url,
+            body,
+            authorized: request.headers.get('authorization')?.startsWith('Bearer ') ?? false
+        });
+        const status = route.status ?? 200;
+
+        if (replayKey) {
+            idempotentResponses.set(replayKey, { status, body: result });
+        }
+        return jsonResponse(result, status);
+    } catch (error) {
+        if (error instanceof MockApiError) {
+            return jsonResponse({ detail: error.detail }, error.status);
+        }
+        console.error('[MockBackend] Unhandled error:', error);
+        return jsonResponse({ detail: 'Internal Server Error' }, 500);
+    }
+}
+
+function jsonResponse(body: unknown, status: number): Response {
+    return new Response(JSON.stringify(body), {
+        status,
+        headers: { 'content-type': 'application/json', 'x-mock-backend': 'true' }
+    });
+}
+
+// --- CONTENT ---
+
+function getContent(slug: string, langCode: string): PageContent {
+    const page = pageContents.get(`${slug}/${langCode}`);
+    if (!page) throw new MockApiError(404, `Content '${slug}' not found for language '${langCode}'`);
+    return page;
+}
+
+function submitContact(body: unknown): { message: string } {
+    const form = body as Partial<Record<'name' | 'email' | 'subject' | 'message', string>> | undefined;
+    if (!form?.name || !form.email?.includes('@') || !form.subject || !form.message) {
+        throw new MockApiError(422, 'name, email, subject and message are required');
+    }
+    console.log(`[MockBackend] Contact message from ${form.email}: ${form.subject}`);
+    return { message: 'Your message has been received. We will get back to you soon.' };
+}
+
+function createContent(body: unknown): PageContent {
+    const data = body as Partial<PageContent> | undefined;
+    if (!data?.slug || !data.language_code || !data.title || data.content === undefined) {
+        throw new MockApiError(422, 'slug, language_code, title and content are required');
+    }
+    const key = `${data.slug}/${data.language_code}`;
+    if (pageContents.has(key)) throw new MockApiError(409, 'Content already exists for this slug and language');
+
+    const now = new Date().toISOString();
+    const page: PageContent = {
+        id: `content-${data.slug}-${data.language_code}`,
+        slug: data.slug,
+        language_code: data.language_code,
+        title: data.title,
+        content: data.content,
+        created_at: now,
+        updated_at: now
+    };
+    pageContents.set(key, page);
+    return page;
+}
+
+function updateContent(contentId: string, body: unknown): PageContent {
+    const page = [...pageContents.values()].find((candidate) => candidate.id === contentId);
+    if (!page) throw new MockApiError(404, 'Content not found');
+
+    const data = body as Partial<PageContent> | undefined;
+    if (data?.title !== undefined) page.title = data.title;
+    if (data?.content !== undefined) page.content = data.content;
+    page.updated_at = new Date().toISOString();
+    return page;
+}
+
+function requireAuth(authorized: boolean): void {
+    if (!authorized) throw new MockApiError(401, 'Not authenticated');
+}
+
+// --- TICKETS & TIME SLOTS ---
+
+function findTicketType(ticketTypeId: string): TicketType {
+    const ticketType = ticketTypes.find((candidate) => candidate.id === ticketTypeId);
+    if (!ticketType) throw new MockApiError(404, `Ticket type '${ticketTypeId}' not found`);
+    return ticketType;
+}
+
+function requireDateParam(url: URL, name: string): string {
+    const value = url.searchParams.get(name);
+    if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+        throw new MockApiError(422, `Query parameter '${name}' must be a date in YYYY-MM-DD format`);
+    }
+    return value;
+}
+
+function getTimeSlots(ticketTypeId: string, date: string): TimeSlot[] {
+    findTicketType(ticketTypeId);
+
+    if (openingOf(getMockOpeningCalendar(), date).kind === 'closed' || date < museumToday()) return [];
+
+    return scheduleOf(date).map(({ start, minutes }) => {
+        const id = `${ticketTypeId}_${date}_${start.replace(':', '')}`;
+        let slot = timeSlots.get(id);
+        if (!slot) {
+            const startTime = museumTimeToIso(date, start);
+            slot = {
+                id,
+                ticket_type_id: ticketTypeId,
+                start_time: startTime,
+                end_time: new Date(new Date(startTime).getTime() + minutes * 60_000).toISOString(),
+                capacity: SLOT_CAPACITY,
+                available_slots: seededAvailability(id),
+                created_at: SEED_TIMESTAMP,
+                updated_at: SEED_TIMESTAMP
+            };
+            timeSlots.set(id, slot);
+        }
+        return slot;
+    });
+}
+
+/**
+ * Slot start times and durations of an open day. A special opening adds one slot for its hours,
+ * and is the only slot when it opens a weekly closing day.
+ */
+function scheduleOf(date: string): { start: string; minutes: number }[] {
+    const openingCalendar = getMockOpeningCalendar();
+    const opening = openingOf(openingCalendar, date);
+    if (opening.kind !== 'special' || !opening.exception.opens_at || !opening.exception.closes_at) return DAILY_SCHEDULE;
+
+    const [openHour, openMinute] = opening.exception.opens_at.split(':').map(Number);
+    const [closeHour, closeMinute] = opening.exception.closes_at.split(':').map(Number);
+    const evening = {
+        start: opening.exception.opens_at,
+        minutes: closeHour * 60 + closeMinute - (openHour * 60 + openMinute)
+    };
+    return openingCalendar.closed_weekdays.includes(weekdayOf(date)) ? [evening] : [...DAILY_SCHEDULE, evening];
+}
+
+function getAvailability(ticketTypeId: string, from: string, to: string): DateAvailability[] {
+    if (to < from) throw new MockApiError(422, "'to' must not be before 'from'");
+
+    const days: DateAvailability[] = [];
+    for (let day = new Date(`${from}T12:00:00Z`); ; day.setUTCDate(day.getUTCDate() + 1)) {
+        const date = day.toISOString().slice(0, 10);
+        if (date > to) break;
+
+        const slots = getTimeSlots(ticketTypeId, date);
+        if (slots.length === 0) continue;
+        days.push({
+            date,
+            slot_count: slots.length,
+            capacity: slots.reduce((sum, slot) => sum + slot.capacity, 0),
+            available_slots: slots.reduce((sum, slot) => sum + slot.available_slots, 0)
+        });
+    }
+    return days;
+}
+
+function findTimeSlot(timeSlotId: string): TimeSlot {
+    let slot = timeSlots.get(timeSlotId);
+    if (!slot) {
+        // Slot ids encode ticket type and date, so an unseen slot can be materialized on demand
+        const match = /^(.+)_(\d{4}-\d{2}-\d{2})_\d{4}$/.exec(timeSlotId);
+        if (match) {
+            getTimeSlots(match[1], match[2]);
+            slot = timeSlots.get(timeSlotId);
+        }
+    }
+    if (!slot) throw new MockApiError(404, `Time slot '${timeSlotId}' not found`);
+    return slot;
+}
+
+/** Pushes the capacity of the slot's day to pages watching it (see `availabilityPublisher.ts`). */
+function publishAvailability(slot: TimeSlot): void {
+    const date = slot.id.split('_').at(-2)!;
+    availabilityPublisher.publish({
+        ticket_type_id: slot.ticket_type_id,
+        date,
+        time_slots: structuredClone(getTimeSlots(slot.ticket_type_id, date))
+    });
+}
+
+/** Pre-booked demo load: deterministic per slot, with roughly one slot in seven sold out. */
+function seededAvailability(slotId: string): number {
+    let hash = 0;
+    for (const char of slotId) hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+    if (hash % 7 === 0) return 0;
+    return SLOT_CAPACITY - (hash % 12);
+}
+
+// --- MERCHANDISE ---
+
+function getMerchandiseItem(merchandiseId: string): Merchandise {
+    const item = merchandise.find((candidate) => candidate.id === merchandiseId);
+    if (!item) throw new MockApiError(404, 'Merchandise not found');
+    return item;
+}
+
+// --- BOOKINGS ---
+
+/**
+ * Checks a booking request and prices its line items.
+ * All line items share the slot, so its capacity must cover their combined quantity
+ * (or the participants of a group). Places held by the request's own `hold_id` count as available.
+ */
+function validateBookingRequest(data: BookingCreate | undefined): {
+    slot: TimeSlot;
+    lineItems: BookingLineItem[];
+    quantity: number;
+    hold?: SeatHold;
+} {
+    if (!data?.time_slot_id || !data.customer_name || !data.customer_email) {
+        throw new MockApiError(422, 'time_slot_id, customer_name and customer_email are required');
+    }
+
+    const hold = data.hold_id ? findSeatHold(data.hold_id) : undefined;
+    if (hold && hold.time_slot_id !== data.time_slot_id) {
+        throw new MockApiError(422, 'The seat hold belongs to a different time slot');
+    }
+    if (data.group) validateGroupDetails(data.group);
+    return {
+        ...validateLineItems(data.time_slot_id, data.line_items, hold?.quantity ?? 0, data.group?.participants),
+        hold
+    };
+}
+
+/**
+ * Prices line items and checks the slot can take their combined quantity.
+ * @param heldPlaces Places already set aside for this request by a seat hold
+ * @param participants Size of a group visit, which takes one place per participant instead of per ticket
+ */
+function validateLineItems(
+    timeSlotId: string,
+    requested: BookingLineItemCreate[] | undefined,
+    heldPlaces = 0,
+    participants?: number
+): { slot: TimeSlot; lineItems: BookingLineItem[]; quantity: number } {
+    if (!timeSlotId) {
+        throw new MockApiError(422, 'time_slot_id is required');
+    }
+    if (!Array.isArray(requested) || requested.length === 0) {
+        throw new MockApiError(422, 'line_items must contain at least one ticket type');
+    }
+
+    const slot = findTimeSlot(timeSlotId);
+    const visitDate = slot.id.split('_').at(-2)!;
+    const lineItems = requested.map((line): BookingLineItem => {
+        if (!Number.isInteger(line.quantity) || line.quantity < 1) {
+            throw new MockApiError(422, 'quantity must be a positive integer');
+        }
+        const ticketType = findTicketType(line.ticket_type_id);
+        const { unitPrice } = priceTicket(ticketType, pricingRules, visitDate);
+        return { ticket_type_id: ticketType.id, quantity: line.quantity, unit_price: unitPrice };
+    });
+    if (new Set(lineItems.map((line) => line.ticket_type_id)).size !== lineItems.length) {
+        throw new MockApiError(422, 'Each ticket type may appear only once in line_items');
+    }
+
+    const groupTypes = lineItems.map((line) => findTicketType(line.ticket_type_id)).filter(isGroupTicketType);
+    if (participants === undefined && groupTypes.length > 0) {
+        throw new MockApiError(422, 'Group tickets can only be booked with the details of the group');
+    }
+    if (participants !== undefined) {
+        if (groupTypes.length !== 1 || lineItems.length !== 1 || lineItems[0].quantity !== 1) {
+            throw new MockApiError(422, 'A group booking holds exactly one group ticket');
+        }
+        const [groupType] = groupTypes;
+        const min = groupType.min_group_size ?? DEFAULT_MIN_GROUP_SIZE;
+        if (!Number.isInteger(participants) || participants < min || participants > groupType.group_size!) {
+            throw new MockApiError(422, `Groups must have between ${min} and ${groupType.group_size} participants`);
+        }
+    }
+
+    const quantity = participants ?? lineItems.reduce((sum, line) => sum + line.quantity, 0);
+    if (slot.available_slots + heldPlaces < quantity) {
+        throw new MockApiError(409, `Only ${slot.available_slots + heldPlaces} places left for this time slot`);
+    }
+    return { slot, lineItems, quantity };
+}
+
+function isGroupTicketType(ticketType: TicketType): boolean {
+    return (ticketType.group_size ?? 1) > 1;
+}
+
+function validateGroupDetails(group: GroupBookingCreate): void {
+    if (!group.organisation?.trim() || !group.phone?.trim() || !group.guide_language) {
+        throw new MockApiError(422, 'organisation, phone and guide_language are required for a group');
+    }
+    if (!['CARD', 'INVOICE'].includes(group.payment_method)) {
+        throw new MockApiError(422, "payment_method must be 'CARD' or 'INVOICE'");
+    }
+    if (group.payment_method === 'INVOICE' && (!group.invoice_tax_id?.trim() || !group.invoice_address?.trim())) {
+        throw new MockApiError(422, 'invoice_tax_id and invoice_address are required to pay by invoice');
+    }
+}
+
+function priceLineItems(lineItems: BookingLineItem[]): number {
+    const total = lineItems.reduce((sum, line) => sum + line.unit_price * line.quantity, 0);
+    return Math.round(total * 100) / 100;
+}
+
+function createBooking(
+    data: BookingCreate | undefined,
+    status: Booking['status'],
+    orderId?: string
+): Booking {
+    const { slot, lineItems, quantity, hold } = validateBookingRequest(data);
+    const now = new Date().toISOString();
+
+    // The booking takes over the held places; the hold itself is used up
+    if (hold) {
+        seatHolds.delete(hold.id);
+        slot.available_slots += hold.quantity;
+    }
+    slot.available_slots -= quantity;
+    slot.updated_at = now;
+    publishAvailability(slot);
+
+    const booking: Booking = {
+        id: crypto.randomUUID(),
+        user_id: data!.user_id,
+        customer_name: data!.customer_name,
+        customer_email: data!.customer_email,
+        booking_date: slot.id.split('_').at(-2)!,
+        time_slot_id: slot.id,
+        line_items: lineItems,
+        quantity,
+        total_price: priceLineItems(lineItems),
+        // Group visits need a guide assigned by staff before they are confirmed
+        status: data!.group ? 'PENDING' : status,
+        group: data!.group,
+        order_id: orderId,
+        source: 'ONLINE',
+        created_at: now,
+        updated_at: now
+    };
+    bookings.set(booking.id, booking);
+    console.log(`[MockBackend] Booking ${booking.id}: ${booking.quantity} place(s) in ${slot.id}, ${slot.available_slots} left`);
+    return booking;
+}
+
+function getBooking(bookingId: string): Booking {
+    const booking = bookings.get(bookingId);
+    if (!booking) throw new MockApiError(404, 'Booking not found');
+    return booking;
+}
+
+function confirmBooking(bookingId: string): Booking {
+    const booking = getBooking(bookingId);
+    if (booking.status !== 'PENDING') {
+        throw new MockApiError(409, `Only pending bookings can be confirmed (this one is ${booking.status})`);
+    }
+    booking.status = 'CONFIRMED';
+    booking.updated_at = new Date().toISOString();
+    console.log(`[MockBackend] Booking ${booking.id} confirmed by staff`);
+    return booking;
+}
+
+function checkInBooking(bookingId: string, body: { checked_in_at?: string } | undefined): Booking {
+    const booking = getBooking(bookingId);
+    if (booking.status === 'COMPLETED') {
+        throw new MockApiError(409, `Booking already checked in at ${booking.checked_in_at}`);
+    }
+    if (booking.status !== 'CONFIRMED') {
+        throw new MockApiError(409, `Only confirmed bookings can be checked in (this one is ${booking.status})`);
+    }
+
+    if (body?.checked_in_at !== undefined && Number.isNaN(Date.parse(body.checked_in_at))) {
+        throw new MockApiError(422, 'checked_in_at must be an ISO date-time');
+    }
+
+    const now = new Date().toISOString();
+    booking.status = 'COMPLETED';
+    booking.checked_in_at = body?.checked_in_at ?? now;
+    booking.updated_at = now;
+    console.log(`[MockBackend] Booking ${booking.id} checked in`);
+    return booking;
+}
+
+function lookupBooking(reference: string | null, email: string | null): Booking {
+    if (!reference || !email) throw new MockApiError(422, "Query parameters 'reference' and 'email' are required");
+    const booking = [...bookings.values()].find(
+        (candidate) =>
+            bookingReference(candidate.id) === reference.trim().toUpperCase() &&
+            candidate.customer_email?.toLowerCase() === email.trim().toLowerCase()
+    );
+    if (!booking) throw new MockApiError(404, 'No booking matches this reference and email');
+    return booking;
+}
+
+/** Loads a booking for a visitor's change, checking their access token and the change window. */
+function findChangeableBooking(bookingId: string, token: string | undefined): { booking: Booking; slot: TimeSlot } {
+    const booking = getBooking(bookingId);
+    if (!verifyBookingAccess(booking.id, token)) throw new MockApiError(403, 'Invalid booking access token');
+
+    const slot = findTimeSlot(booking.time_slot_id);
+    if (!canChangeBooking(booking.status, slot.start_time)) {
+        throw new MockApiError(
+            409,
+            `Bookings can only be changed while pending or confirmed, up to ${CHANGE_CUTOFF_HOURS} hours before the visit`
+        );
+    }
+    return { booking, slot };
+}
+
+function cancelBooking(bookingId: string, body: { token?: string } | undefined): Booking {
+    const { booking, slot } = findChangeableBooking(bookingId, body?.token);
+    const now = new Date().toISOString();
+
+    slot.available_slots += booking.quantity;
+    slot.updated_at = now;
+    publishAvailability(slot);
+    booking.status = 'CANCELLED';
+    booking.updated_at = now;
+    console.log(`[MockBackend] Booking ${booking.id} cancelled, ${slot.available_slots} place(s) left in ${slot.id}`);
+    return booking;
+}
+
+function rescheduleBooking(bookingId: string, body: { time_slot_id?: string; token?: string } | undefined): Booking {
+    const { booking, slot } = findChangeableBooking(bookingId, body?.token);
+    if (!body?.time_slot_id) throw new MockApiError(422, 'time_slot_id is required');
+
+    const target = findTimeSlot(body.time_slot_id);
+    if (target.id === slot.id) throw new MockApiError(422, 'The booking is already in this time slot');
+    if (target.ticket_type_id !== slot.ticket_type_id) {
+        throw new MockApiError(422, 'Bookings can only move to a time slot of the same ticket type');
+    }
+    if (Date.parse(target.start_time) <= Date.now()) {
+        throw new MockApiError(422, 'The new time slot has already started');
+    }
+    if (target.available_slots < booking.quantity) {
+        throw new MockApiError(409, `Only ${target.available_slots} place(s) left in the new time slot`);
+    }
+
+    const now = new Date().toISOString();
+    slot.available_slots += booking.quantity;
+    slot.updated_at = now;
+    target.available_slots -= booking.quantity;
+    target.updated_at = now;
+    publishAvailability(slot);
+    publishAvailability(target);
+
+    booking.time_slot_id = target.id;
+    booking.booking_date = target.id.split('_').at(-2)!;
+    booking.updated_at = now;
+    console.log(`[MockBackend] Booking ${booking.id} moved from ${slot.id} to ${target.id}`);
+    return booking;
+}
+
+// --- SEAT HOLDS ---
+
+function createSeatHold(data: SeatHoldCreate | undefined): SeatHold {
+    const { slot, quantity } = validateLineItems(data?.time_slot_id ?? '', data?.line_items, 0, data?.participants);
+    const now = new Date();
+
+    slot.available_slots -= quantity;
+    slot.updated_at = now.toISOString();
+    publishAvailability(slot);
+
+    const hold: SeatHold = {
+        id: crypto.randomUUID(),
+        time_slot_id: slot.id,
+        quantity,
+        expires_at: new Date(now.getTime() + SEAT_HOLD_MINUTES * 60_000).toISOString(),
+        created_at: now.toISOString()
+    };
+    seatHolds.set(hold.id, hold);
+    console.log(`[MockBackend] Hold ${hold.id}: ${quantity} place(s) in ${slot.id} until ${hold.expires_at}`);
+    return hold;
+}
+
+function findSeatHold(holdId: string): SeatHold {
+    const hold = seatHolds.get(holdId);
+    if (!hold) throw new MockApiError(410, 'Seat hold expired or released');
+    return hold;
+}
+
+function releaseSeatHold(holdId: string): { message: string } {
+    const hold = seatHolds.get(holdId);
+    if (!hold) throw new MockApiError(404, 'Seat hold not found');
+    returnHeldPlaces(hold);
+    return { message: 'Seat hold released' };
+}
+
+/** Gives the places of every expired hold back to its slot. */
+function sweepExpiredSeatHolds(): void {
+    const now = Date.now();
+    for (const hold of seatHolds.values()) {
+        if (Date.parse(hold.expires_at) <= now) {
+            console.log(`[MockBackend] Hold ${hold.id} expired`);
+            returnHeldPlaces(hold);
+        }
+    }
+}
+
+function returnHeldPlaces(hold: SeatHold): void {
+    seatHolds.delete(hold.id);
+    const slot = timeSlots.get(hold.time_slot_id);
+    if (slot) {
+        slot.available_slots += hold.quantity;
+        slot.updated_at = new Date().toISOString();
+        publishAvailability(slot);
+    }
+}
+
+// --- PAYMENTS ---
+
+/** What an order costs and what pays for it besides the card. */
+interface OrderPrice {
+    /** Left to pay by card. */
+    amount: number;
+    discount: number;
+    promo?: PromoCode;
+    voucher?: GiftVoucher;
+    /** Taken from the redeemed voucher's balance. */
+    redeemed: number;
+}
+
+/**
+ * Validates an order against current capacity, stock, its promo code and its gift voucher.
+ * @returns The amount to charge by card, the discount taken off it and the voucher balance spent on it
+ */
+function priceOrder(payload: OrderCreatePayload | undefined): OrderPrice {
+    if (!payload || (!payload.booking && !payload.merchandise_items?.length && !payload.gift_vouchers?.length)) {
+        throw new MockApiError(422, 'The order must contain a booking, merchandise items or gift vouchers');
+    }
+
+    const totals = { tickets: 0, merchandise: 0, giftVouchers: 0 };
+    if (payload.booking) {
+        totals.tickets = priceLineItems(validateBookingRequest(payload.booking).lineItems);
+    }
+    for (const line of payload.merchandise_items ?? []) {
+        const item = getMerchandiseItem(line.merchandise_id);
+        if (line.quantity < 1 || item.inventory < line.quantity) {
+            throw new MockApiError(409, `Only ${item.inventory} left of '${item.name_translations.en ?? item.id}'`);
+        }
+        totals.merchandise += item.price * line.quantity;
+    }
+    for (const purchase of payload.gift_vouchers ?? []) {
+        const problem = validateGiftVoucherPurchase(purchase);
+        if (problem) throw new MockApiError(422, problem);
+        totals.giftVouchers += purchase.amount;
+    }
+
+    const promo = payload.promo_code ? findUsablePromoCode(payload.promo_code) : undefined;
+    const voucher = payload.gift_voucher_code ? findRedeemableGiftVoucher(payload.gift_voucher_code) : undefined;
+    const { discount, redeemed, amountDue } = redeemGiftVoucher(voucher ?? null, applyPromoCode(promo ?? null, totals));
+    return { amount: amountDue, discount, promo, voucher, redeemed };
+}
+
+function createPaymentIntent(payload: OrderCreatePayload): { client_secret: string } {
+    const { amount } = priceOrder(payload);
+    if (amount <= 0) throw new MockApiError(422, 'Nothing is left to pay by card');
+    const intent = createIntent('pi_sim_', payload, amount);
+    return { client_secret: intent.clientSecret };
+}
+
+/** Settles an order its gift voucher covers in full, as a payment that succeeds at once. */
+function payWithGiftVoucher(payload: OrderCreatePayload): { payment_intent_id: string } {
+    const { amount, voucher } = priceOrder(payload);
+    if (!voucher || amount > 0) throw new MockApiError(422, 'The gift voucher does not cover the whole order');
+    const intent = createIntent('pi_voucher_', payload, 0);
+    completePayment(intent);
+    return { payment_intent_id: intent.id };
+}
+
+function createIntent(prefix: string, payload: OrderCreatePayload, amount: number): PaymentIntent {
+    const id = `${prefix}${crypto.randomUUID().replace(/-/g, '').slice(0, 16)}`;
+    const intent: PaymentIntent = {
+        id,
+        clientSecret: `${id}_secret_${crypto.randomUUID().replace(/-/g, '').slice(0, 12)}`,
+        payload,
+        amount,
+        status: 'requires_payment'
+    };
+    paymentIntents.set(id, intent);
+    return intent;
+}
+
+function simulatePaymentSuccess(body: { payment_intent_id?: string } | undefined) {
+    const intent = body?.payment_intent_id ? paymentIntents.get(body.payment_intent_id) : undefined;
+    if (!intent) throw new MockApiError(404, 'Payment intent not found');
+
+    if (intent.status !== 'succeeded') completePayment(intent);
+    return { status: intent.status, payment_intent_id: intent.id, order_id: intent.orderId };
+}
+
+/** Creates the order of a paid intent: its booking, stock changes, promo code use and gift vouchers. */
+function completePayment(intent: PaymentIntent): void {
+    // Capacity, stock, the promo code's uses and the voucher's balance may have changed since the intent was created
+    const { discount, promo, voucher, redeemed } = priceOrder(intent.payload);
+
+    const now = new Date().toISOString();
+    const order: Order = {
+        id: crypto.randomUUID(),
+        customer_name: intent.payload.customer_name,
+        customer_email: intent.payload.customer_email,
+        order_date: now,
+        total_amount: intent.amount,
+        payment_status: 'PAID',
+        payment_intent_id: intent.id,
+        promo_code: promo?.code,
+        discount_amount: promo ? discount : undefined,
+        gift_voucher_code: voucher?.code,
+        gift_voucher_amount: voucher ? redeemed : undefined,
+        language: intent.payload.language,
+        source: 'ONLINE',
+        created_at: now,
+        updated_at: now
+    };
+    orders.set(order.id, order);
+    if (promo?.uses_remaining !== undefined) promo.uses_remaining -= 1;
+    if (voucher) voucher.balance = Math.round((voucher.balance - redeemed) * 100) / 100;
+
+    if (intent.payload.booking) {
+        order.booking_id = createBooking(intent.payload.booking, 'CONFIRMED', order.id).id;
+    }
+    for (const line of intent.payload.merchandise_items ?? []) {
+        getMerchandiseItem(line.merchandise_id).inventory -= line.quantity;
+    }
+    if (intent.payload.gift_vouchers?.length) {
+        order.gift_vouchers = intent.payload.gift_vouchers.map(issueGiftVoucher);
+    }
+
+    intent.status = 'succeeded';
+    intent.orderId = order.id;
+}
+
+function getPaymentOrder(paymentIntentId: string): Order {
+    const orderId = paymentIntents.get(paymentIntentId)?.orderId;
+    const order = orderId ? orders.get(orderId) : undefined;
+    if (!order) throw new MockApiError(404, 'No order for this payment intent');
+    return order;
+}
+
+// --- GIFT VOUCHERS ---
+
+function issueGiftVoucher(purchase: GiftVoucherCreate): GiftVoucher {
+    let code: string;
+    do {
+        const chars = Array.from(
+            crypto.getRandomValues(new Uint8Array(8)),
+            (byte) => GIFT_VOUCHER_CODE_ALPHABET[byte % GIFT_VOUCHER_CODE_ALPHABET.length]
+        ).join('');
+        code = `MZ-${chars.slice(0, 4)}-${chars.slice(4)}`;
+    } while (giftVouchers.has(code));
+
+    const now = new Date();
+    const expiresAt = new Date(now);
+    expiresAt.setMonth(expiresAt.getMonth() + GIFT_VOUCHER_VALIDITY_MONTHS);
+    const voucher: GiftVoucher = {
+        code,
+        initial_amount: purchase.amount,
+        balance: purchase.amount,
+        recipient_name: purchase.recipient_name.trim(),
+        sender_name: purchase.sender_name?.trim() || undefined,
+        message: purchase.message?.trim() || undefined,
+        delivery_date: purchase.delivery_date,
+        expires_at: expiresAt.toISOString(),
+        created_at: now.toISOString()
+    };
+    giftVouchers.set(code, voucher);
+    return voucher;
+}
+
+function findRedeemableGiftVoucher(code: string | undefined): GiftVoucher {
+    const voucher = code ? giftVouchers.get(normalizeGiftVoucherCode(code)) : undefined;
+    if (!voucher) throw new MockApiError(404, 'Gift voucher not found');
+    if (!isGiftVoucherRedeemable(voucher)) throw new MockApiError(410, 'Gift voucher expired or spent');
+    return voucher;
+}
+
+// --- PROMO CODES ---
+
+function findUsablePromoCode(code: string | undefined): PromoCode {
+    const promo = code ? promoCodes.get(normalizePromoCode(code)) : undefined;
+    if (!promo) throw new MockApiError(404, 'Promo code not found');
+    if (!isPromoCodeUsable(promo)) throw new MockApiError(410, 'Promo code expired or used up');
+    return promo;
+}
@@ -0,0 +1,57 @@
+// File: frontend/src/lib/server/orderDelivery.ts
+import { ApiClient, type Order } from '$lib/api/apiClient';
+import { backendFetch, getBackendUrl } from '$lib/server/apiProxy';
+import {
+    loadBookingDetails,
+    sendBookingConfirmation,
+    type BookingDetails
+} from '$lib/server/bookingConfirmation';
+import { sendGiftVouchers } from '$lib/server/giftVoucherDelivery';
+
+/**
+ * Emails what a paid order brings its buyer: the booking confirmation with the PDF ticket, and
+ * each gift voucher bought with it.
+ *
+ * The payment confirmation triggers it: Stripe's `payment_intent.succeeded` webhook for card
+ * payments, so the buyer is emailed even if they never return to the site. Payments Stripe never
+ * sees (simulated ones) are delivered from the payment-success page, which also runs it for card
+ * payments in case the webhook is late. Each email is sent once, however often this runs.
+ */
+
+let backendClient: ApiClient | undefined;
+
+/**
+ * Sends the emails of a paid order that have not been sent yet.
+ * @param order The paid order
+ * @param details Its booking, as returned by `loadBookingDetails`, or null without one
+ * @param fallbackLanguage Language to use when the order does not record the buyer's
+ * @returns False when something could not be sent and should be tried again later
+ */
+export async function deliverPaidOrder(
+    order: Order,
+    details: BookingDetails | null,
+    fallbackLanguage: string
+): Promise<boolean> {
+    if (order.payment_status !== 'PAID') return true;
+
+    const language = order.language ?? fallbackLanguage;
+    const [bookingSent, vouchersSent] = await Promise.all([
+        details ? sendBookingConfirmation(details, language) : true,
+        order.gift_vouchers?.length ? sendGiftVouchers(order, language) : true
+    ]);
+    return bookingSent && vouchersSent;
+}
+
+/**
+ * Loads the order paid by a payment intent from the backend and delivers it. For callers without
+ * an incoming request, such as the payment webhook.
+ * @param paymentIntentId The payment intent that succeeded
+ * @returns False when something could not be sent and should be tried again later
+ */
+export async function deliverOrderForPaymentIntent(paymentIntentId: string): Promise<boolean> {
+    backendClient ??= new ApiClient({ baseUrl: `${getBackendUrl()}/api/v1` });
+
+    const order = await backendClient.getOrderByPaymentIntent(paymentIntentId, backendFetch);
+    const details = order.booking_id ? await loadBookingDetails(backendClient, order.booking_id, backendFetch) : null;
+    return deliverPaidOrder(order, details, 'it');
+}
@@ -0,0 +1,10 @@
+// File: frontend/src/lib/server/redis.ts
+import { Redis } from 'ioredis';
+import { env } from '$env/dynamic/private';
+
+/**
+ * Shared Redis connection for state that must outlive a single server instance: on a serverless
+ * deploy every instance has its own memory, and it is wiped on each cold start.
+ * The connection opens on the first command, so importing this module costs nothing.
+ */
+export const redis = new Redis(env.REDIS_URL ?? 'redis://localhost:6379', { lazyConnect: true });
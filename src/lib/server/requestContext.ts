@@ -0,0 +1,38 @@
+// File: frontend/src/lib/server/requestContext.ts
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { createRequestId } from '$lib/api/apiClient';
+
+interface RequestContext {
+    requestId: string;
+}
+
+/**
+ * Correlation ID of the request being handled. `hooks.server.ts` runs every request inside
+ * `runWithRequestContext`, so `logger` and the shared `apiClient` can read it without threading.
+ */
+const storage = new AsyncLocalStorage<RequestContext>();
+
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+/**
+ * Returns the incoming correlation ID if it is well formed, or a new one.
+ * Malformed values are dropped so clients cannot inject arbitrary text into the logs.
+ * @param incoming Value of the request's `X-Request-ID` header
+ */
+export function resolveRequestId(incoming: string | null): string {
+    return incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : createRequestId();
+}
+
+/**
+ * Runs `fn` with `requestId` as the current correlation ID.
+ * @param requestId ID of the request being handled
+ * @param fn Work done for that request
+ */
+export function runWithRequestContext<T>(requestId: string, fn: () => T): T {
+    return storage.run({ requestId }, fn);
+}
+
+/** Returns the correlation ID of the request being handled, or undefined outside a request. */
+export function getRequestId(): string | undefined {
+    return storage.getStore()?.requestId;
+}
@@ -0,0 +1,32 @@
+// File: frontend/src/lib/server/staffAuth.ts
+import { error } from '@sveltejs/kit';
+import { handleApiError, type User } from '$lib/api/apiClient';
+
+/**
+ * Access to staff tooling. The backend knows who is signed in and with which role; pages and
+ * endpoints under `/staff` ask it on every request rather than trusting anything in the browser.
+ */
+
+const STAFF_ROLES: User['role'][] = ['Staff', 'Administrator'];
+
+/**
+ * The signed-in staff member, or null without a session.
+ * Throws a 403 for users whose role does not give access to staff tooling.
+ * @param locals The request's `locals`, holding its `ApiClient`
+ * @param customFetch The request's `fetch`
+ */
+export async function getStaffUser(locals: App.Locals, customFetch: typeof fetch): Promise<User | null> {
+    let user: User;
+    try {
+        user = await locals.api.getCurrentUser(customFetch);
+    } catch (e) {
+        const err = handleApiError(e, 'Failed to load user');
+        if (err.status === 401) return null;
+        throw error(err.status, err.details);
+    }
+
+    if (!STAFF_ROLES.includes(user.role)) {
+        throw error(403, 'Accesso riservato al personale del museo.');
+    }
+    return user;
+}
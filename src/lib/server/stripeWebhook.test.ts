@@ -0,0 +1,47 @@
+import { createHmac } from 'node:crypto';
+import { describe, expect, it } from 'vitest';
+import { verifyStripeEvent } from './stripeWebhook';
+
+const SECRET = 'whsec_test';
+const NOW = new Date('2025-06-01T10:00:00Z');
+const PAYLOAD = JSON.stringify({
+    id: 'evt_1',
+    type: 'payment_intent.succeeded',
+    data: { object: { id: 'pi_123', object: 'payment_intent' } }
+});
+
+function sign(payload: string, timestamp: number, secret = SECRET): string {
+    const signature = createHmac('sha256', secret).update(`${timestamp}.${payload}`).digest('hex');
+    return `t=${timestamp},v1=${signature}`;
+}
+
+const timestamp = NOW.getTime() / 1000;
+
+describe('verifyStripeEvent', () => {
+    it('accepts a correctly signed event', () => {
+        const event = verifyStripeEvent(PAYLOAD, sign(PAYLOAD, timestamp), SECRET, NOW);
+        expect(event?.type).toBe('payment_intent.succeeded');
+        expect(event?.data.object.id).toBe('pi_123');
+    });
+
+    it('accepts any matching v1 signature, as during secret rotation', () => {
+        const header = `${sign(PAYLOAD, timestamp, 'whsec_old')},v1=${sign(PAYLOAD, timestamp).split('v1=')[1]}`;
+        expect(verifyStripeEvent(PAYLOAD, header, SECRET, NOW)).not.toBeNull();
+    });
+
+    it('refuses a tampered body', () => {
+        const header = sign(PAYLOAD, timestamp);
+        expect(verifyStripeEvent(PAYLOAD.replace('pi_123', 'pi_999'), header, SECRET, NOW)).toBeNull();
+    });
+
+    it('refuses another secret, a missing header and a missing secret', () => {
+        expect(verifyStripeEvent(PAYLOAD, sign(PAYLOAD, timestamp, 'whsec_other'), SECRET, NOW)).toBeNull();
+        expect(verifyStripeEvent(PAYLOAD, null, SECRET, NOW)).toBeNull();
+        expect(verifyStripeEvent(PAYLOAD, sign(PAYLOAD, timestamp, ''), '', NOW)).toBeNull();
+    });
+
+    it('refuses signatures older than five minutes', () => {
+        expect(verifyStripeEvent(PAYLOAD, sign(PAYLOAD, timestamp - 299), SECRET, NOW)).not.toBeNull();
+        expect(verifyStripeEvent(PAYLOAD, sign(PAYLOAD, timestamp - 301), SECRET, NOW)).toBeNull();
+    });
+});
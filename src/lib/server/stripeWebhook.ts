@@ -0,0 +1,55 @@
+// File: frontend/src/lib/server/stripeWebhook.ts
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+/**
+ * Stripe webhook events. Stripe signs each delivery with the endpoint's signing secret
+ * (`STRIPE_WEBHOOK_SECRET`): the `Stripe-Signature` header holds a timestamp and an HMAC-SHA256
+ * of `<timestamp>.<raw body>`. Events with a bad signature, or signed too long ago to rule out a
+ * replay, are refused.
+ */
+
+/** How old a signature may be, as in Stripe's own libraries. */
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+/** The fields of a Stripe event this app reads. */
+export interface StripeEvent {
+    id: string;
+    type: string;
+    data: { object: { id: string; object: string } };
+}
+
+/**
+ * Checks a webhook delivery's signature and parses its event.
+ * @param payload The raw request body, exactly as received
+ * @param signatureHeader The `Stripe-Signature` header
+ * @param secret The endpoint's signing secret
+ * @param now Current time, for the replay check
+ * @returns The event, or null when the delivery cannot be trusted
+ */
+export function verifyStripeEvent(
+    payload: string,
+    signatureHeader: string | null,
+    secret: string,
+    now: Date = new Date()
+): StripeEvent | null {
+    if (!signatureHeader || !secret) return null;
+
+    const fields = signatureHeader.split(',').map((field) => field.trim().split('='));
+    const timestamp = Number(fields.find(([key]) => key === 't')?.[1]);
+    const signatures = fields.filter(([key]) => key === 'v1').map(([, value]) => value ?? '');
+    if (!Number.isInteger(timestamp) || signatures.length === 0) return null;
+    if (Math.abs(now.getTime() / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) return null;
+
+    const expected = createHmac('sha256', secret).update(`${timestamp}.${payload}`).digest();
+    const isSigned = signatures.some((signature) => {
+        const candidate = Buffer.from(signature, 'hex');
+        return candidate.length === expected.length && timingSafeEqual(candidate, expected);
+    });
+    if (!isSigned) return null;
+
+    try {
+        return JSON.parse(payload) as StripeEvent;
+    } catch {
+        return null;
+    }
+}
@@ -0,0 +1,143 @@
+// File: frontend/src/lib/server/ticketPdf.ts
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage } from 'pdf-lib';
+import QRCode from 'qrcode';
+
+/**
+ * Renders a booking's ticket as a one-page PDF, entirely in process: pdf-lib lays out the page
+ * with the built-in Helvetica fonts and the QR code is drawn as vector squares, so no fonts,
+ * images or rendering services are fetched.
+ */
+
+/** Content of one ticket, already formatted for display. */
+export interface TicketPdfContent {
+    language: string;
+    reference: string;
+    visitorName: string;
+    visitDate: string;
+    visitTime: string;
+    /** One line per ticket type, e.g. "2 × Adult". */
+    tickets: string[];
+    /** Organisation and size of a group visit. */
+    group?: string;
+    /** Signed ticket token encoded in the QR code. */
+    token: string;
+}
+
+type TicketLabels = Record<'title' | 'reference' | 'visitor' | 'date' | 'time' | 'tickets' | 'group' | 'scan', string>;
+
+const labels: Record<string, TicketLabels> = {
+    it: {
+        title: "Biglietto d'ingresso",
+        reference: 'Riferimento',
+        visitor: 'Visitatore',
+        date: 'Data',
+        time: 'Orario',
+        tickets: 'Biglietti',
+        group: 'Gruppo',
+        scan: "Mostra questo codice QR all'ingresso. Ti aspettiamo 15 minuti prima dell'orario della visita."
+    },
+    en: {
+        title: 'Admission ticket',
+        reference: 'Reference',
+        visitor: 'Visitor',
+        date: 'Date',
+        time: 'Time',
+        tickets: 'Tickets',
+        group: 'Group',
+        scan: 'Show this QR code at the entrance. Please arrive 15 minutes before your visit.'
+    }
+};
+
+// A4 portrait, in points. Shared with the gift voucher PDF (see `giftVoucherPdf.ts`).
+export const PAGE_WIDTH = 595;
+export const PAGE_HEIGHT = 842;
+export const MARGIN = 48;
+const QR_SIZE = 200;
+export const BRAND = rgb(0.545, 0.353, 0.235); // #8B5A3C, as in the emails
+export const TEXT = rgb(0.2, 0.2, 0.2);
+export const MUTED = rgb(0.45, 0.45, 0.45);
+
+/**
+ * Builds the PDF for one ticket.
+ * @returns The PDF file's bytes
+ */
+export async function renderTicketPdf(content: TicketPdfContent): Promise<Uint8Array> {
+    const text = labels[content.language] ?? labels.it;
+    const pdf = await PDFDocument.create();
+    pdf.setTitle(`${text.title} ${content.reference} - Museo Zungri`);
+    pdf.setAuthor('Museo Zungri');
+    pdf.setLanguage(content.language);
+
+    const page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    const regular = await pdf.embedFont(StandardFonts.Helvetica);
+    const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+
+    // Header band
+    page.drawRectangle({ x: 0, y: PAGE_HEIGHT - 90, width: PAGE_WIDTH, height: 90, color: BRAND });
+    drawLine(page, 'MUSEO ZUNGRI', bold, 22, MARGIN, PAGE_HEIGHT - 48, rgb(1, 1, 1));
+    drawLine(page, text.title, regular, 12, MARGIN, PAGE_HEIGHT - 70, rgb(1, 1, 1));
+
+    let y = PAGE_HEIGHT - 130;
+    const field = (label: string, values: string[]) => {
+        drawLine(page, label.toUpperCase(), bold, 8, MARGIN, y, MUTED);
+        y -= 16;
+        for (const value of values) {
+            drawLine(page, value, regular, 13, MARGIN, y, TEXT);
+            y -= 17;
+        }
+        y -= 8;
+    };
+
+    field(text.reference, [content.reference]);
+    field(text.visitor, [content.visitorName]);
+    field(text.date, [content.visitDate]);
+    field(text.time, [content.visitTime]);
+    field(text.tickets, content.tickets);
+    if (content.group) field(text.group, [content.group]);
+
+    drawQrCode(page, content.token, (PAGE_WIDTH - QR_SIZE) / 2, MARGIN + 60, QR_SIZE);
+    drawLine(page, text.scan, regular, 8, MARGIN, MARGIN + 36, MUTED, PAGE_WIDTH - 2 * MARGIN);
+    drawLine(page, 'Via Roma, 123 - 89863 Zungri (VV) - info@museozungri.it', regular, 8, MARGIN, MARGIN, MUTED);
+
+    return pdf.save();
+}
+
+/** Draws the QR code of `data` as dark squares on the page's white background. */
+export function drawQrCode(page: PDFPage, data: string, x: number, y: number, size: number): void {
+    const { modules } = QRCode.create(data, { errorCorrectionLevel: 'M' });
+    const moduleSize = size / modules.size;
+
+    for (let row = 0; row < modules.size; row++) {
+        for (let col = 0; col < modules.size; col++) {
+            if (!modules.get(row, col)) continue;
+            page.drawRectangle({
+                x: x + col * moduleSize,
+                // PDF coordinates grow upwards, QR rows downwards
+                y: y + size - (row + 1) * moduleSize,
+                width: moduleSize,
+                height: moduleSize,
+                color: rgb(0, 0, 0)
+            });
+        }
+    }
+}
+
+/**
+ * Draws one line of text, shrinking it to `maxWidth` when needed. The standard fonts only cover
+ * WinAnsi, so other characters (e.g. in a visitor's name) are replaced with "?".
+ */
+export function drawLine(
+    page: PDFPage,
+    value: string,
+    font: PDFFont,
+    size: number,
+    x: number,
+    y: number,
+    color: ReturnType<typeof rgb>,
+    maxWidth = PAGE_WIDTH - x - MARGIN
+): void {
+    const supported = new Set(font.getCharacterSet());
+    const safe = [...value].map((char) => (supported.has(char.codePointAt(0)!) ? char : '?')).join('');
+    const fitted = Math.min(size, (size * maxWidth) / Math.max(font.widthOfTextAtSize(safe, size), 1));
+    page.drawText(safe, { x, y, size: fitted, font, color });
+}
@@ -0,0 +1,56 @@
+// File: frontend/src/lib/server/ticketToken.ts
+import { errors, jwtVerify, SignJWT } from 'jose';
+import { env } from '$env/dynamic/private';
+import type { Booking } from '$lib/api/apiClient';
+
+/**
+ * Signed ticket tokens, the content of the QR code on PDF tickets. A token is an HS256 JWT
+ * keyed with `TICKET_SIGNING_SECRET`. It names the booking and the time slot it was issued
+ * for, so a ticket printed before a reschedule can be told apart at the door. Staff scan it at
+ * the entrance and the server checks it with `verifyTicketToken`.
+ */
+
+const TICKET_TOKEN_ISSUER = 'zungri-museum';
+const TICKET_TOKEN_AUDIENCE = 'museum-ticket';
+
+/** What a valid ticket token names. */
+export interface TicketClaims {
+    bookingId: string;
+    timeSlotId: string;
+    quantity: number;
+}
+
+function ticketSigningKey(): Uint8Array {
+    if (!env.TICKET_SIGNING_SECRET) throw new Error('TICKET_SIGNING_SECRET is not set');
+    return new TextEncoder().encode(env.TICKET_SIGNING_SECRET);
+}
+
+/** The token printed as a QR code on a booking's ticket. */
+export async function signTicketToken(booking: Booking): Promise<string> {
+    return new SignJWT({ slot: booking.time_slot_id, qty: booking.quantity })
+        .setProtectedHeader({ alg: 'HS256' })
+        .setSubject(booking.id)
+        .setIssuer(TICKET_TOKEN_ISSUER)
+        .setAudience(TICKET_TOKEN_AUDIENCE)
+        .setIssuedAt()
+        .sign(ticketSigningKey());
+}
+
+/**
+ * Checks a scanned ticket token's signature, issuer and audience.
+ * @returns The ticket's claims, or null when the token is not a genuine ticket
+ */
+export async function verifyTicketToken(token: string): Promise<TicketClaims | null> {
+    try {
+        const { payload } = await jwtVerify(token.trim(), ticketSigningKey(), {
+            issuer: TICKET_TOKEN_ISSUER,
+            audience: TICKET_TOKEN_AUDIENCE,
+            algorithms: ['HS256']
+        });
+        if (!payload.sub || typeof payload.slot !== 'string' || typeof payload.qty !== 'number') return null;
+        return { bookingId: payload.sub, timeSlotId: payload.slot, quantity: payload.qty };
+    } catch (error) {
+        if (error instanceof errors.JOSEError) return null;
+        throw error;
+    }
+}
@@ -0,0 +1,127 @@
+// File: frontend/src/lib/server/visitCalendar.ts
+import { MUSEUM_TIME_ZONE, museumDateTimeOf } from '$lib/utils/museumTime';
+
+/**
+ * Calendar entries for a visit: an RFC 5545 iCalendar file and links that open the event in
+ * Google Calendar and Outlook. Times are written on the museum's clock in Europe/Rome, so the
+ * visit lands at the right hour whatever the visitor's own timezone.
+ */
+
+export const MUSEUM_ADDRESS = 'Museo di Zungri, Via Roma, 123, 89863 Zungri (VV), Italia';
+
+/** A visit as a calendar event. */
+export interface VisitEvent {
+    /** Stable across downloads, so calendars update the event instead of adding another. */
+    uid: string;
+    title: string;
+    description: string;
+    /** Link back to the booking's page. */
+    url: string;
+    /** ISO instants of the slot's start and end. */
+    start: string;
+    end: string;
+}
+
+// The museum's timezone, for calendars that do not know Europe/Rome by name
+const ROME_VTIMEZONE = [
+    'BEGIN:VTIMEZONE',
+    `TZID:${MUSEUM_TIME_ZONE}`,
+    'BEGIN:DAYLIGHT',
+    'TZOFFSETFROM:+0100',
+    'TZOFFSETTO:+0200',
+    'TZNAME:CEST',
+    'DTSTART:19700329T020000',
+    'RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU',
+    'END:DAYLIGHT',
+    'BEGIN:STANDARD',
+    'TZOFFSETFROM:+0200',
+    'TZOFFSETTO:+0100',
+    'TZNAME:CET',
+    'DTSTART:19701025T030000',
+    'RRULE:FREQ=YEARLY;BYMONTH=10;BYDAY=-1SU',
+    'END:STANDARD',
+    'END:VTIMEZONE'
+];
+
+/** Museum wall-clock time in iCalendar's basic format, e.g. 20250614T103000. */
+function museumBasicDateTime(instant: string): string {
+    return museumDateTimeOf(instant).replace(/[-:]/g, '');
+}
+
+/** Escapes a TEXT value (RFC 5545 §3.3.11). */
+function escapeText(value: string): string {
+    return value.replace(/[\\;,]/g, (char) => `\\${char}`).replace(/\r?\n/g, '\\n');
+}
+
+/** Folds a content line to 75 octets, continuing on lines that start with a space (RFC 5545 §3.1). */
+function foldLine(line: string): string {
+    const encoder = new TextEncoder();
+    const lines: string[] = [];
+    let current = '';
+    for (const char of line) {
+        const limit = lines.length === 0 ? 75 : 74;
+        if (encoder.encode(current + char).length > limit) {
+            lines.push(current);
+            current = '';
+        }
+        current += char;
+    }
+    lines.push(current);
+    return lines.join('\r\n ');
+}
+
+/**
+ * Renders a visit as an iCalendar file with a single event.
+ * @param event The visit
+ * @param now Timestamp of the file (DTSTAMP)
+ */
+export function createVisitIcs(event: VisitEvent, now: Date = new Date()): string {
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//Museo di Zungri//Prenotazioni//IT',
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        ...ROME_VTIMEZONE,
+        'BEGIN:VEVENT',
+        `UID:${event.uid}`,
+        `DTSTAMP:${now.toISOString().replace(/[-:]|\.\d{3}/g, '')}`,
+        `DTSTART;TZID=${MUSEUM_TIME_ZONE}:${museumBasicDateTime(event.start)}`,
+        `DTEND;TZID=${MUSEUM_TIME_ZONE}:${museumBasicDateTime(event.end)}`,
+        `SUMMARY:${escapeText(event.title)}`,
+        `DESCRIPTION:${escapeText(`${event.description}\n\n${event.url}`)}`,
+        `LOCATION:${escapeText(MUSEUM_ADDRESS)}`,
+        `URL:${event.url}`,
+        'END:VEVENT',
+        'END:VCALENDAR'
+    ];
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/** Link that opens the visit in Google Calendar's new event form. */
+export function googleCalendarUrl(event: VisitEvent): string {
+    const params = new URLSearchParams({
+        action: 'TEMPLATE',
+        text: event.title,
+        dates: `${museumBasicDateTime(event.start)}/${museumBasicDateTime(event.end)}`,
+        ctz: MUSEUM_TIME_ZONE,
+        details: `${event.description}\n\n${event.url}`,
+        location: MUSEUM_ADDRESS
+    });
+    return `https://calendar.google.com/calendar/render?${params}`;
+}
+
+/** Link that opens the visit in Outlook's new event form. */
+export function outlookCalendarUrl(event: VisitEvent): string {
+    const params = new URLSearchParams({
+        path: '/calendar/action/compose',
+        rru: 'addevent',
+        subject: event.title,
+        // Outlook reads UTC instants and shows them in the calendar's own timezone
+        startdt: new Date(event.start).toISOString(),
+        enddt: new Date(event.end).toISOString(),
+        body: `${event.description}\n\n${event.url}`,
+        location: MUSEUM_ADDRESS
+    });
+    return `https://outlook.live.com/calendar/0/deeplink/compose?${params}`;
+}
@@ -0,0 +1,312 @@
+// File: frontend/src/lib/server/waitlistService.ts
+import { env } from '$env/dynamic/private';
+import { ApiClient, ApiError, type SeatHold, type TimeSlot } from '$lib/api/apiClient';
+import { backendFetch, getBackendUrl } from '$lib/server/apiProxy';
+import { emailService } from '$lib/server/emailService';
+import { logger } from '$lib/server/logger';
+import { redis } from '$lib/server/redis';
+import { toBookingParams } from '$lib/stores/bookingPersistence';
+import { generateToken } from '$lib/utils/crypto';
+import { formatDayKey, formatMuseumTime, type DayKey } from '$lib/utils/museumTime';
+
+/**
+ * Waitlists for sold-out time slots. Entries are kept in Redis, so every server instance sees
+ * the same lists and they survive restarts; each entry expires a day after its slot starts.
+ *
+ * `checkWaitlists` runs from the `/api/cron/waitlist` cron job. It re-reads the availability of
+ * every slot with people waiting. When places free up, the oldest entry whose quantity fits gets a
+ * seat hold on the backend and an email with a claim link that opens the booking wizard pre-filled
+ * with that hold. The offer lasts as long as the hold; once it lapses the places go to the next entry.
+ */
+
+const CHECK_LOCK_KEY = 'waitlist:check-lock';
+/** Longest a check may run before another one can start, in case one dies holding the lock. */
+const CHECK_LOCK_MS = 55_000;
+const ENTRY_RETENTION_SECONDS = 24 * 60 * 60;
+const SLOTS_KEY = 'waitlist:slots';
+
+export type WaitlistStatus = 'waiting' | 'offered';
+
+export interface WaitlistEntry {
+    id: string;
+    timeSlotId: string;
+    ticketTypeId: string;
+    date: DayKey;
+    email: string;
+    quantity: number;
+    language: string;
+    status: WaitlistStatus;
+    /** ISO instants, as entries are stored as JSON. */
+    createdAt: string;
+    slotStartsAt: string;
+    claimToken?: string;
+    /** Places held for an open offer; the offer expires with it. */
+    hold?: SeatHold;
+}
+
+export interface JoinWaitlistData {
+    timeSlotId: string;
+    ticketTypeId: string;
+    date: DayKey;
+    email: string;
+    quantity: number;
+    language: string;
+}
+
+/** A waitlist request that cannot be accepted; `status` is the HTTP status to answer with. */
+export class WaitlistError extends Error {
+    constructor(
+        public status: number,
+        message: string
+    ) {
+        super(message);
+        this.name = 'WaitlistError';
+    }
+}
+
+const entryKey = (id: string) => `waitlist:entry:${id}`;
+const slotKey = (timeSlotId: string) => `waitlist:slot:${timeSlotId}`;
+const memberKey = (timeSlotId: string, email: string) => `waitlist:member:${timeSlotId}:${email}`;
+const claimKey = (token: string) => `waitlist:claim:${token}`;
+
+class WaitlistService {
+    private client?: ApiClient;
+
+    /**
+     * Adds a visitor to the waitlist of a full slot.
+     * @returns The new entry and its position among the people waiting for that slot
+     */
+    async join(data: JoinWaitlistData): Promise<{ entry: WaitlistEntry; position: number }> {
+        const email = data.email.toLowerCase();
+
+        const slots = await this.loadSlots(data.ticketTypeId, data.date);
+        const slot = slots.find((candidate) => candidate.id === data.timeSlotId);
+        if (!slot || Date.parse(slot.start_time) <= Date.now()) {
+            throw new WaitlistError(404, 'Questo orario non è più prenotabile.');
+        }
+        if (slot.available_slots >= data.quantity) {
+            throw new WaitlistError(409, 'Ci sono ancora posti disponibili: puoi prenotare direttamente.');
+        }
+
+        const entry: WaitlistEntry = {
+            id: crypto.randomUUID(),
+            ...data,
+            email,
+            status: 'waiting',
+            createdAt: new Date().toISOString(),
+            slotStartsAt: slot.start_time
+        };
+        const ttl = retentionSeconds(entry);
+
+        // One entry per visitor and slot, checked atomically across instances
+        const isNew = await redis.set(memberKey(entry.timeSlotId, email), entry.id, 'EX', ttl, 'NX');
+        if (!isNew) {
+            throw new WaitlistError(409, "Sei già in lista d'attesa per questo orario.");
+        }
+
+        await redis
+            .multi()
+            .set(entryKey(entry.id), JSON.stringify(entry), 'EX', ttl)
+            .zadd(slotKey(entry.timeSlotId), Date.parse(entry.createdAt), entry.id)
+            .expire(slotKey(entry.timeSlotId), ttl)
+            .sadd(SLOTS_KEY, entry.timeSlotId)
+            .exec();
+
+        const waiting = (await this.entriesFor(entry.timeSlotId)).filter((candidate) => candidate.status === 'waiting');
+        const position = waiting.findIndex((candidate) => candidate.id === entry.id) + 1;
+        logger.info('Joined waitlist', { timeSlotId: entry.timeSlotId, quantity: entry.quantity, position });
+        return { entry, position };
+    }
+
+    /**
+     * Redeems a claim link while its offer is still open. The link may be opened again until it expires.
+     * @returns The booking wizard URL, pre-filled with the held places, or null for unknown or expired links
+     */
+    async claim(token: string): Promise<string | null> {
+        const id = await redis.get(claimKey(token));
+        const entry = id ? await this.readEntry(id) : null;
+        if (!entry?.hold || entry.claimToken !== token || Date.parse(entry.hold.expires_at) <= Date.now()) return null;
+
+        logger.info('Waitlist offer claimed', { timeSlotId: entry.timeSlotId });
+
+        const params = toBookingParams({
+            step: 4,
+            tickets: [[entry.ticketTypeId, entry.quantity]],
+            date: entry.date,
+            timeSlotId: entry.timeSlotId
+        });
+        params.set('hold', entry.hold.id);
+        params.set('hold_until', entry.hold.expires_at);
+        return `/book?${params}`;
+    }
+
+    /**
+     * Drops lapsed offers and offers freed places to the next eligible people.
+     * Only one check runs at a time across all instances; an overlapping call returns at once.
+     */
+    async checkWaitlists(): Promise<void> {
+        const locked = await redis.set(CHECK_LOCK_KEY, '1', 'PX', CHECK_LOCK_MS, 'NX');
+        if (!locked) return;
+
+        try {
+            const waitingBySlot = new Map<string, WaitlistEntry[]>();
+            for (const timeSlotId of await redis.smembers(SLOTS_KEY)) {
+                const entries = await this.expireOffers(await this.entriesFor(timeSlotId));
+                if (entries.length === 0) {
+                    await redis.srem(SLOTS_KEY, timeSlotId);
+                    continue;
+                }
+                const waiting = entries.filter((entry) => entry.status === 'waiting');
+                if (waiting.length > 0) waitingBySlot.set(timeSlotId, waiting);
+            }
+
+            // One availability request per ticket type and day with someone waiting
+            const days = new Map<string, { ticketTypeId: string; date: DayKey; timeSlotIds: string[] }>();
+            for (const [timeSlotId, [first]] of waitingBySlot) {
+                const key = `${first.ticketTypeId}|${first.date}`;
+                const day = days.get(key) ?? { ticketTypeId: first.ticketTypeId, date: first.date, timeSlotIds: [] };
+                day.timeSlotIds.push(timeSlotId);
+                days.set(key, day);
+            }
+
+            for (const { ticketTypeId, date, timeSlotIds } of days.values()) {
+                try {
+                    const slots = await this.loadSlots(ticketTypeId, date);
+                    for (const timeSlotId of timeSlotIds) {
+                        const slot = slots.find((candidate) => candidate.id === timeSlotId);
+                        await this.offerFreedPlaces(slot, waitingBySlot.get(timeSlotId) ?? []);
+                    }
+                } catch (error) {
+                    logger.warn('Waitlist availability check failed', {
+                        ticketTypeId,
+                        date,
+                        error: error instanceof Error ? error.message : String(error)
+                    });
+                }
+            }
+        } finally {
+            await redis.del(CHECK_LOCK_KEY);
+        }
+    }
+
+    private async offerFreedPlaces(slot: TimeSlot | undefined, waiting: WaitlistEntry[]): Promise<void> {
+        if (!slot || Date.parse(slot.start_time) <= Date.now()) {
+            // The slot is gone or has started: nobody can be offered a place any more
+            await Promise.all(waiting.map((entry) => this.removeEntry(entry)));
+            return;
+        }
+
+        // Places held for open offers are already out of the slot's availability
+        let free = slot.available_slots;
+        for (const entry of waiting) {
+            if (free <= 0) break;
+            if (entry.quantity > free) continue;
+            if (await this.sendOffer(entry, slot)) free -= entry.quantity;
+        }
+    }
+
+    private async sendOffer(entry: WaitlistEntry, slot: TimeSlot): Promise<boolean> {
+        let hold: SeatHold;
+        try {
+            hold = await this.backend().createSeatHold(
+                {
+                    time_slot_id: entry.timeSlotId,
+                    line_items: [{ ticket_type_id: entry.ticketTypeId, quantity: entry.quantity }]
+                },
+                backendFetch
+            );
+        } catch (error) {
+            // 409: someone else took the places first. The entry keeps its place either way.
+            if (!(error instanceof ApiError && error.status === 409)) {
+                logger.warn('Waitlist seat hold failed', {
+                    timeSlotId: entry.timeSlotId,
+                    error: error instanceof Error ? error.message : String(error)
+                });
+            }
+            return false;
+        }
+
+        const token = generateToken();
+        const locale = entry.language === 'it' ? 'it-IT' : 'en-GB';
+        try {
+            await emailService.sendWaitlistOfferEmail(entry.email, {
+                language: entry.language,
+                claimLink: `${env.PUBLIC_BASE_URL}/waitlist/claim/${token}`,
+                visitDate: formatDayKey(entry.date, locale),
+                visitTime: `${formatMuseumTime(slot.start_time, locale)} - ${formatMuseumTime(slot.end_time, locale)}`,
+                quantity: entry.quantity,
+                expiresAt: formatMuseumTime(hold.expires_at, locale)
+            });
+        } catch {
+            // Already logged by the email service; the entry keeps its place and is retried next check
+            await this.backend().releaseSeatHold(hold.id, backendFetch).catch(() => undefined);
+            return false;
+        }
+
+        const offered: WaitlistEntry = { ...entry, status: 'offered', claimToken: token, hold };
+        await redis
+            .multi()
+            .set(entryKey(entry.id), JSON.stringify(offered), 'EX', retentionSeconds(entry))
+            .set(claimKey(token), entry.id, 'PX', Math.max(Date.parse(hold.expires_at) - Date.now(), 1))
+            .exec();
+        logger.info('Waitlist offer sent', { timeSlotId: entry.timeSlotId, quantity: entry.quantity });
+        return true;
+    }
+
+    /** Removes offers whose hold has lapsed and returns the entries still open. */
+    private async expireOffers(entries: WaitlistEntry[]): Promise<WaitlistEntry[]> {
+        const now = Date.now();
+        const open: WaitlistEntry[] = [];
+        for (const entry of entries) {
+            if (entry.status === 'offered' && (!entry.hold || Date.parse(entry.hold.expires_at) <= now)) {
+                await this.removeEntry(entry);
+            } else {
+                open.push(entry);
+            }
+        }
+        return open;
+    }
+
+    /** A slot's entries in joining order. Entries Redis has already expired are dropped from its list. */
+    private async entriesFor(timeSlotId: string): Promise<WaitlistEntry[]> {
+        const ids = await redis.zrange(slotKey(timeSlotId), 0, -1);
+        if (ids.length === 0) return [];
+
+        const values = await redis.mget(ids.map(entryKey));
+        const missing = ids.filter((_, index) => values[index] === null);
+        if (missing.length > 0) await redis.zrem(slotKey(timeSlotId), ...missing);
+
+        return values.filter((value): value is string => value !== null).map((value) => JSON.parse(value));
+    }
+
+    private async readEntry(id: string): Promise<WaitlistEntry | null> {
+        const value = await redis.get(entryKey(id));
+        return value ? JSON.parse(value) : null;
+    }
+
+    private async removeEntry(entry: WaitlistEntry): Promise<void> {
+        const transaction = redis
+            .multi()
+            .del(entryKey(entry.id))
+            .del(memberKey(entry.timeSlotId, entry.email))
+            .zrem(slotKey(entry.timeSlotId), entry.id);
+        if (entry.claimToken) transaction.del(claimKey(entry.claimToken));
+        await transaction.exec();
+    }
+
+    private backend(): ApiClient {
+        this.client ??= new ApiClient({ baseUrl: `${getBackendUrl()}/api/v1` });
+        return this.client;
+    }
+
+    private loadSlots(ticketTypeId: string, date: DayKey): Promise<TimeSlot[]> {
+        return this.backend().getTimeSlots(ticketTypeId, date, backendFetch, { forceRefresh: true });
+    }
+}
+
+/** Seconds an entry is kept: until a day after its slot starts. */
+function retentionSeconds(entry: WaitlistEntry): number {
+    return Math.max(Math.ceil((Date.parse(entry.slotStartsAt) - Date.now()) / 1000), 0) + ENTRY_RETENTION_SECONDS;
+}
+
+export const waitlistService = new WaitlistService();
@@ -7,11 +7,13 @@
  * - svelte/store: Provides `writable`, `get` for creating/accessing reactive stores.
  * - @supabase/supabase-js: Provides `Session` type.
  * - $lib/utils/supabaseClient: Provides the client-side Supabase instance.
+ * - $lib/api/apiClient: The shared client is bound to `sessionTokenProvider` once the listener starts.
  */
 
 import { writable, type Writable, get } from 'svelte/store'; // Import get
 import type { Session } from '@supabase/supabase-js';
 import { supabase } from '$lib/utils/supabaseClient';
+import { apiClient, type AuthTokenProvider } from '$lib/api/apiClient';
 
 // --- Stores ---
 
@@ -29,6 +31,33 @@ export const sessionStore: Writable<Session | null> = writable(null);
 export const authReady: Writable<boolean> = writable(false);
 
 
+// --- API Authentication ---
+
+/**
+ * Browser token provider for `ApiClient`, backed by `sessionStore`.
+ * Before the initial auth check completes it asks Supabase directly, so early
+ * requests are not sent anonymously by mistake.
+ */
+export const sessionTokenProvider: AuthTokenProvider = {
+    async getAccessToken() {
+        if (get(authReady)) {
+            return get(sessionStore)?.access_token ?? null;
+        }
+        const { data } = await supabase.auth.getSession();
+        return data.session?.access_token ?? null;
+    },
+
+    async refreshAccessToken() {
+        const { data, error } = await supabase.auth.refreshSession();
+        if (error || !data.session) {
+            console.warn('[AuthStore] Session refresh failed:', error?.message);
+            return null;
+        }
+        sessionStore.set(data.session);
+        return data.session.access_token;
+    }
+};
+
 // --- Initialization ---
 
 let authListenerInitialized = false;
@@ -53,6 +82,9 @@ export function initializeAuthListener(): () => void {
 
     authListenerInitialized = true;
 
+    // In the browser the shared client serves a single visitor, so it can carry their session
+    apiClient.setAuthProvider(sessionTokenProvider);
+
     // Immediately try to get the current session to set initial state
     supabase.auth.getSession().then(({ data }) => {
         console.log('[AuthStore] Initial session fetched client-side:', data.session ? data.session.user.id : 'null');
@@ -0,0 +1,155 @@
+/**
+ * @file bookingPersistence.ts
+ * @purpose Saves the booking wizard to sessionStorage and URL search params so it survives reloads.
+ *
+ * @dependencies
+ * - svelte/store: For the derived snapshot of the booking stores.
+ * - $lib/stores/bookingStore: The state being saved and the `SavedBooking` shape.
+ * - $lib/utils/museumTime: Day keys for the saved date.
+ *
+ * @notes
+ * - The URL carries only what makes a step shareable: tickets, date, time slot and step
+ *   (e.g. `/book?tickets=<id>:2,<id>:1&date=2025-07-14&slot=<id>&step=4`).
+ *   Customer and group details and the seat hold stay in sessionStorage, which is private to the tab.
+ *   The one exception is a waitlist claim link, which hands over the hold placed for its offer
+ *   (`hold` and `hold_until`); it is never written back to the URL.
+ * - URL params win over sessionStorage, so a shared link opens the booking it describes.
+ * - Nothing here trusts saved data: `bookingActions.restoreBooking` checks it against fresh availability.
+ */
+
+import { derived, type Readable } from 'svelte/store';
+import {
+    customerInfo,
+    groupDetails,
+    seatHold,
+    selectedDate,
+    selectedTickets,
+    selectedTimeSlot,
+    type SavedBooking
+} from '$lib/stores/bookingStore';
+import { isDayKey, toDayKey } from '$lib/utils/museumTime';
+
+const BOOKING_STORAGE_KEY = 'zungri-museum-booking';
+const LAST_STEP = 4;
+
+/** The current wizard state in its saved form, without the step (which the page owns). */
+export const bookingSnapshot: Readable<Omit<SavedBooking, 'step'>> = derived(
+    [selectedTickets, selectedDate, selectedTimeSlot, customerInfo, seatHold, groupDetails],
+    ([$selectedTickets, $selectedDate, $selectedTimeSlot, $customerInfo, $seatHold, $groupDetails]) => ({
+        tickets: [...$selectedTickets],
+        date: $selectedDate ? toDayKey($selectedDate) : null,
+        timeSlotId: $selectedTimeSlot?.id ?? null,
+        customer: { name: $customerInfo.name, email: $customerInfo.email },
+        hold: $seatHold ?? undefined,
+        group: $groupDetails ?? undefined
+    })
+);
+
+/**
+ * Reads the booking to restore: URL params first, sessionStorage otherwise.
+ * Customer and group details always come from sessionStorage, and so does the hold unless the URL hands one over.
+ * @param url The current page URL
+ * @returns The saved booking, or null when there is nothing to restore
+ */
+export function readSavedBooking(url: URL): SavedBooking | null {
+    const fromSession = readSessionBooking();
+    const fromUrl = parseBookingParams(url.searchParams);
+    if (!fromUrl) return fromSession;
+    return {
+        ...fromUrl,
+        customer: fromSession?.customer,
+        hold: fromUrl.hold ?? fromSession?.hold,
+        group: fromSession?.group
+    };
+}
+
+/**
+ * Writes the booking to sessionStorage. No-op outside the browser.
+ * @param saved The state to keep
+ */
+export function saveBooking(saved: SavedBooking): void {
+    if (typeof window === 'undefined') return;
+    if (saved.tickets.length === 0) {
+        sessionStorage.removeItem(BOOKING_STORAGE_KEY);
+        return;
+    }
+    sessionStorage.setItem(BOOKING_STORAGE_KEY, JSON.stringify(saved));
+}
+
+/** Forgets the saved booking, e.g. once it has been paid. */
+export function clearSavedBooking(): void {
+    if (typeof window === 'undefined') return;
+    sessionStorage.removeItem(BOOKING_STORAGE_KEY);
+}
+
+/**
+ * Builds the shareable search params for a booking. Empty fields are left out.
+ * @param saved The state to encode
+ */
+export function toBookingParams(saved: SavedBooking): URLSearchParams {
+    const params = new URLSearchParams();
+    if (saved.tickets.length === 0) return params;
+
+    params.set('tickets', saved.tickets.map(([ticketTypeId, quantity]) => `${ticketTypeId}:${quantity}`).join(','));
+    if (saved.date) params.set('date', saved.date);
+    if (saved.timeSlotId) params.set('slot', saved.timeSlotId);
+    params.set('step', String(saved.step));
+    return params;
+}
+
+/**
+ * Parses the params written by `toBookingParams`. Malformed values are ignored.
+ * @param params The page's search params
+ * @returns The booking they describe, or null without a valid `tickets` param
+ */
+function parseBookingParams(params: URLSearchParams): SavedBooking | null {
+    const tickets: SavedBooking['tickets'] = [];
+    for (const entry of (params.get('tickets') ?? '').split(',')) {
+        const match = /^([\w-]+):(\d+)$/.exec(entry);
+        const quantity = match ? Number(match[2]) : 0;
+        if (match && quantity > 0 && !tickets.some(([ticketTypeId]) => ticketTypeId === match[1])) {
+            tickets.push([match[1], quantity]);
+        }
+    }
+    if (tickets.length === 0) return null;
+
+    const date = params.get('date');
+    const timeSlotId = params.get('slot');
+    const saved: SavedBooking = {
+        step: clampStep(Number(params.get('step'))),
+        tickets,
+        date: date && isDayKey(date) ? date : null,
+        timeSlotId: timeSlotId && /^[\w-]+$/.test(timeSlotId) ? timeSlotId : null
+    };
+
+    // A waitlist offer's hold, covering every ticket in the link
+    const holdId = params.get('hold');
+    const holdUntil = Date.parse(params.get('hold_until') ?? '');
+    if (saved.timeSlotId && holdId && /^[\w-]+$/.test(holdId) && !Number.isNaN(holdUntil)) {
+        saved.hold = {
+            id: holdId,
+            time_slot_id: saved.timeSlotId,
+            quantity: tickets.reduce((sum, [, quantity]) => sum + quantity, 0),
+            expires_at: new Date(holdUntil).toISOString(),
+            created_at: new Date().toISOString()
+        };
+    }
+    return saved;
+}
+
+function readSessionBooking(): SavedBooking | null {
+    if (typeof window === 'undefined') return null;
+    try {
+        const saved = JSON.parse(sessionStorage.getItem(BOOKING_STORAGE_KEY) ?? 'null') as SavedBooking | null;
+        if (!saved || !Array.isArray(saved.tickets) || saved.tickets.length === 0) return null;
+        return { ...saved, step: clampStep(saved.step) };
+    } catch {
+        // Corrupted or written by an older version: start over
+        sessionStorage.removeItem(BOOKING_STORAGE_KEY);
+        return null;
+    }
+}
+
+function clampStep(step: number): number {
+    return Number.isInteger(step) ? Math.min(Math.max(step, 1), LAST_STEP) : 1;
+}
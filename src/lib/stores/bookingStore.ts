@@ -2,33 +2,75 @@
 * @file Booking Store - Centralized state management for the booking process
 * @description
 * Manages the entire booking flow state using Svelte stores.
-* Provides reactive state for date, time, ticket, and pricing.
-* This version is refactored for simplicity and robustness, enforcing a single ticket type per booking
-* to align with the backend API and simplify the user flow.
+* Provides reactive state for date, time, tickets, and pricing.
+* A booking holds one line item per ticket type, all sharing a single time slot.
 *
 * @dependencies
 * - Svelte: For reactive stores and state management.
 * - apiClient: For fetching ticket types and availability data.
+* - museumTime: Day keys for the API and availability maps, in the museum's calendar.
 *
 * @notes
-* - Enforces a single ticket type selection model for clarity and API compatibility.
+* - `selectedTickets` maps ticket type ids to quantities. The first type selected (`primaryTicketTypeId`)
+*   drives calendar availability and time slots; slot capacity is checked against the combined quantity.
 * - Time slots are now loaded on-demand after a date and ticket type have been selected.
 * - State is reset hierarchically (e.g., changing date clears tickets and time) to ensure consistency.
 * - Exports key interfaces like BookingSummary for use in other components.
 * - Fixed availability data flow to ensure calendar displays visual indicators correctly.
+* - Month availability comes from one `getAvailability` range request; backends without the range
+*   endpoint fall back to one `getTimeSlots` request per day.
 * - Error handling: Comprehensive error states and validation with user feedback.
+* - Moving to payment places a `seatHold` on the slot. `holdSecondsRemaining` ticks while subscribed and
+*   expires the hold at zero: the slot is cleared and `holdExpired` sends the visitor back to pick a time.
+* - `restoreBooking` rebuilds a `SavedBooking` (see bookingPersistence.ts) after a reload. The saved slot is
+*   checked against fresh availability, and anything that no longer fits is reported in `restoreNotice`.
+* - Line items are priced by `priceTicket` (utils/pricing.ts) with `pricingRules` for the selected day, as the
+*   backend prices them; `TicketSummary.price` lists the rules applied.
+* - Ticket types with a `group_size` above 1 are booked as group visits: one group ticket, `groupDetails` with
+*   the organiser's details, and one place per participant (`requiredPlaces`). Groups paying by invoice skip
+*   the checkout: `requestGroupBooking` stores a PENDING booking for staff to confirm.
+* - `openingCalendar` is loaded with the ticket types. Days it closes are marked `closed` without asking for
+*   their availability; bookable days of a special opening are `special` rather than `available`.
+* - `watchAvailability` follows the day being booked over server-sent events. Updates patch `availableTimeSlots`,
+*   the selected slot and `dateAvailability`; `capacityNotice` warns when the selected slot no longer fits.
 * - FIXED: bookingSummary isComplete logic to properly include customerInfo in dependencies.
 */
 
 
 
 import { writable, derived, get, type Writable, type Readable } from 'svelte/store';
-import { apiClient } from '$lib/api/apiClient';
+import {
+    apiClient,
+    isUnsupportedEndpointError,
+    ApiError,
+    RequestAbortedError,
+    availabilityUpdateSchema,
+    cacheKeys,
+    type AvailabilityUpdate,
+    type Booking,
+    type DateAvailability,
+    type OpeningCalendar,
+    type PricingRule,
+    type SeatHold
+} from '$lib/api/apiClient';
+import type { BookingCreate, GroupBookingCreate } from '$lib/schemas/payment';
+import { isDegraded } from '$lib/api/fallbacks';
+import { daysOfMonth, formatMuseumTime, fromDayKey, museumToday, toDayKey, type DayKey } from '$lib/utils/museumTime';
+import { openingOf } from '$lib/utils/openingCalendar';
+import { priceTicket, type TicketPrice } from '$lib/utils/pricing';
 
 // --- TYPE DEFINITIONS (EXPORTED FOR REUSE) ---
 
-/** Represents the availability status of a date. */
-export type DateAvailabilityStatus = 'available' | 'unavailable' | 'loading' | 'unknown';
+/**
+ * Represents the availability status of a date. `closed` days are not opening days at all,
+ * `special` days are bookable special openings.
+ */
+export type DateAvailabilityStatus = 'available' | 'special' | 'unavailable' | 'closed' | 'loading' | 'unknown';
+
+/** Whether a date with this status can be booked. */
+export function isBookableStatus(status: DateAvailabilityStatus): boolean {
+    return status === 'available' || status === 'special';
+}
 
 /** Represents a ticket type available for booking. */
 export interface TicketType {
@@ -37,6 +79,8 @@ export interface TicketType {
     name_translations: Record<string, string>;
     description_translations?: Record<string, string>;
     group_size?: number;
+    min_group_size?: number;
+    age_category?: string;
     [key: string]: any;
 }
 
@@ -50,12 +94,6 @@ export interface TimeSlot {
     [key: string]: any;
 }
 
-/** Represents the currently selected ticket and its quantity. */
-export interface SelectedTicket {
-    id: string;
-    quantity: number;
-}
-
 /** Represents customer details for guest bookings. */
 export interface CustomerInfo {
     name: string;
@@ -63,6 +101,20 @@ export interface CustomerInfo {
     isGuest: boolean;
 }
 
+/** Organiser details of a group visit. The organiser's name and email live in `customerInfo`. */
+export interface GroupDetails {
+    participants: number;
+    organisation: string;
+    phone: string;
+    accessibilityNeeds: string;
+    /** ISO 639-1 code of the language the guided tour should be held in. */
+    guideLanguage: string;
+    /** Pay later by invoice instead of by card at checkout. */
+    payByInvoice: boolean;
+    invoiceTaxId: string;
+    invoiceAddress: string;
+}
+
 /** A map of validation error messages for the booking form. */
 interface ValidationErrors {
     [key: string]: string | undefined;
@@ -72,15 +124,33 @@ interface ValidationErrors {
     name?: string;
     email?: string;
     capacity?: string;
+    participants?: string;
+    organisation?: string;
+    phone?: string;
+    invoiceTaxId?: string;
+    invoiceAddress?: string;
 }
 
 /** A summary of a single ticket line item in the booking. */
-interface TicketSummary {
+export interface TicketSummary {
     type: TicketType;
     quantity: number;
+    /** Price of one ticket on the selected day, with the pricing rules applied. */
+    price: TicketPrice;
     subtotal: number;
 }
 
+/** Wizard state saved across reloads. `date` is a day key in the museum's calendar. */
+export interface SavedBooking {
+    step: number;
+    tickets: [ticketTypeId: string, quantity: number][];
+    date: DayKey | null;
+    timeSlotId: string | null;
+    customer?: { name: string; email: string };
+    hold?: SeatHold;
+    group?: GroupDetails;
+}
+
 /** A comprehensive summary of the entire current booking state. */
 export interface BookingSummary {
     date: Date | null;
@@ -91,21 +161,18 @@ export interface BookingSummary {
     isComplete: boolean;
 }
 
-/** Data structure for the booking creation API payload. */
-interface BookingData {
-    time_slot_id: string;
-    quantity: number;
-    customer_name: string;
-    customer_email: string;
-    user_id?: string;
-}
 
 // --- CORE BOOKING STATE ---
 
 export const selectedDate: Writable<Date | null> = writable(null);
 export const selectedTimeSlot: Writable<TimeSlot | null> = writable(null);
-export const selectedTicket: Writable<SelectedTicket | null> = writable(null);
+/** Selected quantity per ticket type id, in selection order. Types set to 0 are removed. */
+export const selectedTickets: Writable<Map<string, number>> = writable(new Map());
 export const availableTicketTypes: Writable<TicketType[]> = writable([]);
+/** Pricing rules applied to `availableTicketTypes`; empty when the backend has none. */
+export const pricingRules: Writable<PricingRule[]> = writable([]);
+/** Weekly closing days, holidays and special openings; null when the backend has none. */
+export const openingCalendar: Writable<OpeningCalendar | null> = writable(null);
 export const availableTimeSlots: Writable<TimeSlot[]> = writable([]);
 
 export const customerInfo: Writable<CustomerInfo> = writable({
@@ -113,6 +180,8 @@ export const customerInfo: Writable<CustomerInfo> = writable({
     email: '',
     isGuest: true
 });
+/** Details of the group visit being booked; null for individual tickets. */
+export const groupDetails: Writable<GroupDetails | null> = writable(null);
 
 // --- DATE AVAILABILITY CACHE ---
 /**
@@ -127,47 +196,117 @@ export const isLoadingTicketTypes: Writable<boolean> = writable(false);
 export const isLoadingTimeSlots: Writable<boolean> = writable(false);
 export const isCreatingBooking: Writable<boolean> = writable(false);
 export const bookingError: Writable<string | null> = writable(null);
+/** True when the ticket catalogue came from an offline fallback instead of the backend. */
+export const isTicketCatalogDegraded: Writable<boolean> = writable(false);
 export const validationErrors: Writable<ValidationErrors> = writable({});
+/** Explains what could not be restored from a saved booking; cleared once the visitor picks again. */
+export const restoreNotice: Writable<string | null> = writable(null);
+
+// --- SEAT HOLD ---
+/** Places reserved on the selected slot while the visitor pays; null when nothing is held. */
+export const seatHold: Writable<SeatHold | null> = writable(null);
+/** Set when a hold ran out before payment; the visitor has to pick a time slot again. */
+export const holdExpired: Writable<boolean> = writable(false);
+
+/**
+ * Seconds left on the current seat hold, or null without one.
+ * Ticks every second while subscribed and expires the hold when it reaches zero.
+ */
+export const holdSecondsRemaining: Readable<number | null> = derived<Readable<SeatHold | null>, number | null>(
+    seatHold,
+    ($seatHold, set) => {
+        if (!$seatHold) {
+            set(null);
+            return;
+        }
+
+        const expiresAt = Date.parse($seatHold.expires_at);
+        const secondsLeft = () => Math.max(0, Math.ceil((expiresAt - Date.now()) / 1000));
+        set(secondsLeft());
+
+        // Expiry runs from the timer, never during this callback, so clearing `seatHold` cannot re-enter it
+        const timer = setInterval(() => {
+            const seconds = secondsLeft();
+            set(seconds);
+            if (seconds === 0) bookingActions.expireHold();
+        }, 1000);
+        return () => clearInterval(timer);
+    },
+    null
+);
 
 // --- DERIVED STORES FOR COMPUTED VALUES ---
 
-/** Calculates the total price based on the selected ticket and quantity. */
-export const totalPrice: Readable<number> = derived(
-    [selectedTicket, availableTicketTypes],
-    ([$selectedTicket, $availableTicketTypes]) => {
-        if (!$selectedTicket) return 0;
+/**
+ * The ticket type whose calendar availability and time slots drive the visit: the first one selected.
+ * Every line item shares the time slot picked for it.
+ */
+export const primaryTicketTypeId: Readable<string | null> = derived(
+    selectedTickets,
+    ($selectedTickets) => $selectedTickets.keys().next().value ?? null
+);
 
-        const ticketType = $availableTicketTypes.find(tt => tt.id === $selectedTicket.id);
-        if (ticketType) {
-            return ticketType.price * $selectedTicket.quantity;
+/**
+ * One priced line item per selected ticket type, in selection order.
+ * Prices follow `pricingRules` for the selected day; without one only the rules for visitor categories apply.
+ */
+export const ticketLineItems: Readable<TicketSummary[]> = derived(
+    [selectedTickets, availableTicketTypes, pricingRules, selectedDate],
+    ([$selectedTickets, $availableTicketTypes, $pricingRules, $selectedDate]) => {
+        const date = $selectedDate ? toDayKey($selectedDate) : null;
+        const items: TicketSummary[] = [];
+        for (const [ticketTypeId, quantity] of $selectedTickets) {
+            const ticketType = $availableTicketTypes.find(tt => tt.id === ticketTypeId);
+            if (ticketType && quantity > 0) {
+                const price = priceTicket(ticketType, $pricingRules, date);
+                const subtotal = Math.round(price.unitPrice * quantity * 100) / 100;
+                items.push({ type: ticketType, quantity, price, subtotal });
+            }
         }
-        return 0;
+        return items;
     }
 );
 
-/** Calculates the total number of tickets selected. */
+/** Calculates the total price of all selected line items. */
+export const totalPrice: Readable<number> = derived(
+    ticketLineItems,
+    ($ticketLineItems) => Math.round($ticketLineItems.reduce((sum, item) => sum + item.subtotal, 0) * 100) / 100
+);
+
+/** Calculates the combined number of tickets across all ticket types. */
 export const totalTickets: Readable<number> = derived(
-    selectedTicket,
-    ($selectedTicket) => $selectedTicket?.quantity ?? 0
+    selectedTickets,
+    ($selectedTickets) => [...$selectedTickets.values()].reduce((sum, quantity) => sum + quantity, 0)
+);
+
+/** Places the booking takes in its time slot: one per ticket, or one per participant of a group. */
+export const requiredPlaces: Readable<number> = derived(
+    [totalTickets, groupDetails],
+    ([$totalTickets, $groupDetails]) => ($groupDetails && $totalTickets > 0 ? $groupDetails.participants : $totalTickets)
+);
+
+/**
+ * Warns when the selected slot no longer has room for the visitor, e.g. after a live availability
+ * update showed other visitors taking its places. Null while the slot still fits.
+ */
+export const capacityNotice: Readable<string | null> = derived(
+    [selectedTimeSlot, requiredPlaces, seatHold],
+    ([$selectedTimeSlot, $requiredPlaces, $seatHold]) => {
+        if (!$selectedTimeSlot || $requiredPlaces === 0) return null;
+        const free = $selectedTimeSlot.available_slots + heldPlaces($seatHold, $selectedTimeSlot.id, $requiredPlaces);
+        if (free >= $requiredPlaces) return null;
+
+        const time = formatMuseumTime($selectedTimeSlot.start_time);
+        return free <= 0
+            ? `The ${time} visit has just sold out. Please pick another time.`
+            : `Only ${free} ${free === 1 ? 'place is' : 'places are'} left at ${time} for your ${$requiredPlaces}. Please pick another time.`;
+    }
 );
 
 /** Creates a comprehensive summary of the current booking for display. */
 export const bookingSummary: Readable<BookingSummary> = derived(
-    [selectedDate, selectedTimeSlot, selectedTicket, availableTicketTypes, totalPrice, totalTickets, customerInfo],
-    ([$selectedDate, $selectedTimeSlot, $selectedTicket, $availableTicketTypes, $totalPrice, $totalTickets, $customerInfo]) => {
-        const tickets: TicketSummary[] = [];
-
-        if ($selectedTicket) {
-            const ticketType = $availableTicketTypes.find(tt => tt.id === $selectedTicket.id);
-            if (ticketType && $selectedTicket.quantity > 0) {
-                tickets.push({
-                    type: ticketType,
-                    quantity: $selectedTicket.quantity,
-                    subtotal: ticketType.price * $selectedTicket.quantity
-                });
-            }
-        }
-
+    [selectedDate, selectedTimeSlot, ticketLineItems, totalPrice, totalTickets, customerInfo],
+    ([$selectedDate, $selectedTimeSlot, $ticketLineItems, $totalPrice, $totalTickets, $customerInfo]) => {
         // Fixed isComplete logic - now properly reactive to customerInfo changes
         const hasDate = !!$selectedDate;
         const hasTimeSlot = !!$selectedTimeSlot;
@@ -192,7 +331,7 @@ export const bookingSummary: Readable<BookingSummary> = derived(
         return {
             date: $selectedDate,
             timeSlot: $selectedTimeSlot,
-            tickets,
+            tickets: $ticketLineItems,
             totalPrice: $totalPrice,
             totalTickets: $totalTickets,
             isComplete
@@ -200,11 +339,203 @@ export const bookingSummary: Readable<BookingSummary> = derived(
     }
 );
 
+// --- AVAILABILITY HELPERS ---
+
+/** Controllers of the latest availability and time-slot loads; a new load aborts the previous one. */
+const activeLoads = new Map<'availability' | 'timeSlots', AbortController>();
+
+/**
+ * Cancels the previous load of the same kind and returns the signal for a new one.
+ * Results of a load whose signal is aborted must be discarded: a newer load owns the state.
+ */
+function supersedeLoad(kind: 'availability' | 'timeSlots'): AbortSignal {
+    activeLoads.get(kind)?.abort();
+    const controller = new AbortController();
+    activeLoads.set(kind, controller);
+    return controller.signal;
+}
+
+/** Marks a load as finished, unless a newer one already replaced it. */
+function finishLoad(kind: 'availability' | 'timeSlots', signal: AbortSignal): void {
+    if (activeLoads.get(kind)?.signal === signal) activeLoads.delete(kind);
+}
+
+/**
+ * Whether the backend offers the availability range endpoint.
+ * Flipped to false on the first "unsupported" response so later months go straight to the fallback.
+ */
+let rangeEndpointSupported = true;
+
+/** Status of an opening day, from whether it has places left. */
+function openDayStatus(dateString: string, hasPlaces: boolean): DateAvailabilityStatus {
+    if (!hasPlaces) return 'unavailable';
+    return openingOf(get(openingCalendar), dateString).kind === 'special' ? 'special' : 'available';
+}
+
+/**
+ * Adapts a range availability response to per-day statuses.
+ * Requested days missing from the response have no time slots and are unavailable.
+ */
+function applyRangeAvailability(
+    availabilityMap: Map<string, DateAvailabilityStatus>,
+    dates: string[],
+    days: DateAvailability[]
+): void {
+    const byDate = new Map(days.map(day => [day.date.slice(0, 10), day]));
+    for (const dateString of dates) {
+        const day = byDate.get(dateString);
+        availabilityMap.set(dateString, openDayStatus(dateString, !!day && day.available_slots > 0));
+    }
+}
+
+/**
+ * Fallback for backends without the range endpoint: one `getTimeSlots` request per day.
+ */
+async function loadAvailabilityPerDay(
+    ticketTypeId: string,
+    dates: string[],
+    availabilityMap: Map<string, DateAvailabilityStatus>,
+    customFetch: typeof fetch,
+    signal: AbortSignal
+): Promise<void> {
+    const promises = dates.map(dateString =>
+        apiClient.getTimeSlots(ticketTypeId, dateString, customFetch, { signal })
+            .then(timeSlots => {
+                const hasAvailability = timeSlots && timeSlots.length > 0 &&
+                    timeSlots.some(slot => slot.available_slots > 0);
+                const status = openDayStatus(dateString, hasAvailability);
+                availabilityMap.set(dateString, status);
+                console.log(`[BookingStore] ${dateString}: ${status} (${timeSlots?.length || 0} slots)`);
+            })
+            .catch(error => {
+                if (error instanceof RequestAbortedError) return;
+                console.error(`[BookingStore] Failed to check availability for ${dateString}:`, error);
+                availabilityMap.set(dateString, 'unavailable');
+            })
+    );
+
+    // Wait for all API calls to complete
+    await Promise.allSettled(promises);
+}
+
+/**
+ * Places the visitor's own hold sets aside in a slot. They are already taken out of the slot's
+ * `available_slots`, yet still belong to this booking.
+ */
+function heldPlaces(hold: SeatHold | null, timeSlotId: string, requiredPlaces: number): number {
+    if (!hold || hold.time_slot_id !== timeSlotId || hold.quantity !== requiredPlaces) return 0;
+    return Date.parse(hold.expires_at) > Date.now() ? hold.quantity : 0;
+}
+
+/** The opening calendar from the backend. Without one, every day's availability is requested. */
+async function loadOpeningCalendar(customFetch: typeof fetch): Promise<OpeningCalendar | null> {
+    try {
+        return await apiClient.getOpeningCalendar(customFetch);
+    } catch (error) {
+        if (!isUnsupportedEndpointError(error)) throw error;
+        console.warn('[BookingStore] Opening calendar endpoint not supported, checking every day');
+        return null;
+    }
+}
+
+/** Pricing rules from the backend. Backends without pricing rules charge every type its base price. */
+async function loadPricingRules(customFetch: typeof fetch): Promise<PricingRule[]> {
+    try {
+        return await apiClient.getPricingRules(customFetch);
+    } catch (error) {
+        if (!isUnsupportedEndpointError(error)) throw error;
+        console.warn('[BookingStore] Pricing rules endpoint not supported, using base prices');
+        return [];
+    }
+}
+
+/** Whether the hold covers exactly the current slot and ticket selection. */
+function holdMatchesSelection(hold: SeatHold): boolean {
+    return hold.time_slot_id === get(selectedTimeSlot)?.id &&
+        hold.quantity === get(requiredPlaces) &&
+        Date.parse(hold.expires_at) > Date.now();
+}
+
+/** Forgets the current hold and gives its places back to the slot, without waiting for the backend. */
+function dropSeatHold(): void {
+    const hold = get(seatHold);
+    if (!hold) return;
+    seatHold.set(null);
+    apiClient.releaseSeatHold(hold.id).catch(error => {
+        // The backend releases expired holds on its own; nothing else to do
+        console.warn(`[BookingStore] Failed to release seat hold ${hold.id}:`, error);
+    });
+}
+
+// --- GROUP HELPERS ---
+
+/** Smallest group for group ticket types that do not set `min_group_size`. */
+const DEFAULT_MIN_GROUP_SIZE = 2;
+
+/** Whether a ticket type is booked as a group visit rather than as individual tickets. */
+export function isGroupTicketType(ticketType: TicketType): boolean {
+    return (ticketType.group_size ?? 1) > 1;
+}
+
+/** Participants a group ticket type accepts, inclusive. */
+export function groupSizeLimits(ticketType: TicketType): { min: number; max: number } {
+    const max = ticketType.group_size ?? 1;
+    return { min: Math.min(ticketType.min_group_size ?? DEFAULT_MIN_GROUP_SIZE, max), max };
+}
+
+/** Empty organiser details for a new group of the smallest size the ticket type accepts. */
+function newGroupDetails(ticketType: TicketType): GroupDetails {
+    return {
+        participants: groupSizeLimits(ticketType).min,
+        organisation: '',
+        phone: '',
+        accessibilityNeeds: '',
+        guideLanguage: 'it',
+        payByInvoice: false,
+        invoiceTaxId: '',
+        invoiceAddress: ''
+    };
+}
+
+/** The selected group ticket type, if the booking is for a group. */
+function selectedGroupTicketType(): TicketType | undefined {
+    const ticketTypeId = get(primaryTicketTypeId);
+    return get(availableTicketTypes).find(tt => tt.id === ticketTypeId && isGroupTicketType(tt));
+}
+
+// --- PAYLOAD HELPERS ---
+
+/**
+ * Converts summary line items into the `BookingCreate` payload shape.
+ * @param tickets Line items from `bookingSummary.tickets`
+ */
+export function toBookingLineItems(tickets: TicketSummary[]): BookingCreate['line_items'] {
+    return tickets.map(item => ({ ticket_type_id: item.type.id, quantity: item.quantity }));
+}
+
+/**
+ * Converts group details into the `BookingCreate.group` payload shape.
+ * @param details The current `groupDetails`
+ */
+export function toGroupBookingPayload(details: GroupDetails): GroupBookingCreate {
+    return {
+        participants: details.participants,
+        organisation: details.organisation.trim(),
+        phone: details.phone.trim(),
+        accessibility_needs: details.accessibilityNeeds.trim() || undefined,
+        guide_language: details.guideLanguage,
+        payment_method: details.payByInvoice ? 'INVOICE' : 'CARD',
+        invoice_tax_id: details.payByInvoice ? details.invoiceTaxId.trim() : undefined,
+        invoice_address: details.payByInvoice ? details.invoiceAddress.trim() : undefined
+    };
+}
+
 // --- BOOKING ACTIONS ---
 
 export const bookingActions = {
     /**
      * Fetches and caches the availability of all days in a given month for a specific ticket type.
+     * Starting a new load cancels the previous one, whose results are then ignored.
      * @param {string} ticketTypeId - The ID of the ticket type.
      * @param {number} year - The year to check.
      * @param {number} month - The month to check (0-indexed, e.g., 0 for January).
@@ -217,56 +548,80 @@ export const bookingActions = {
         customFetch: typeof fetch = fetch
     ): Promise<void> {
         console.log(`[BookingStore] Loading availability for ticket ${ticketTypeId}, ${year}-${month + 1}`);
-
-        isLoadingDateAvailability.set(true);
+        const signal = supersedeLoad('availability');
 
         // Get current availability map for this ticket type
         const currentMap = get(dateAvailability);
-        let availabilityMap = currentMap.get(ticketTypeId) || new Map<string, DateAvailabilityStatus>();
+        const availabilityMap = currentMap.get(ticketTypeId) || new Map<string, DateAvailabilityStatus>();
 
-        const daysInMonth = new Date(year, month + 1, 0).getDate();
-        const promises: Promise<void>[] = [];
+        const pendingDates: string[] = [];
+        const calendar = get(openingCalendar);
 
-        for (let day = 1; day <= daysInMonth; day++) {
-            const date = new Date(year, month, day);
-            const dateString = date.toISOString().split('T')[0];
+        for (const dateString of daysOfMonth(year, month)) {
+            // Skip if we already have data for this date. 'loading' entries belong to a
+            // superseded load that will never resolve them, so they are requested again.
+            const status = availabilityMap.get(dateString);
+            if (status && status !== 'loading') {
+                continue;
+            }
 
-            // Skip if we already have data for this date
-            if (availabilityMap.has(dateString)) {
-                console.log(`[BookingStore] Skipping ${dateString} - already loaded`);
+            // Closed days have no time slots: no need to ask
+            if (openingOf(calendar, dateString).kind === 'closed') {
+                availabilityMap.set(dateString, 'closed');
                 continue;
             }
 
             // Set loading state
             availabilityMap.set(dateString, 'loading');
+            pendingDates.push(dateString);
+        }
 
-            const promise = apiClient.getTimeSlots(ticketTypeId, dateString, customFetch)
-                .then(timeSlots => {
-                    const hasAvailability = timeSlots && timeSlots.length > 0 &&
-                        timeSlots.some(slot => slot.available_slots > 0);
-                    const status: DateAvailabilityStatus = hasAvailability ? 'available' : 'unavailable';
-                    availabilityMap.set(dateString, status);
-                    console.log(`[BookingStore] ${dateString}: ${status} (${timeSlots?.length || 0} slots)`);
-                })
-                .catch(error => {
-                    console.error(`[BookingStore] Failed to check availability for ${dateString}:`, error);
-                    if (error instanceof Error && (error.message.includes('404') || error.message.includes('No time slots found'))) {
-                        availabilityMap.set(dateString, 'unavailable');
-                    } else {
-                        availabilityMap.set(dateString, 'unavailable');
-                    }
-                });
-
-            promises.push(promise);
+        if (pendingDates.length === 0) {
+            console.log(`[BookingStore] Availability for ${year}-${month + 1} already loaded`);
+            finishLoad('availability', signal);
+            isLoadingDateAvailability.set(false);
+            // Closed days may have just been marked
+            const updatedMap = new Map(currentMap);
+            updatedMap.set(ticketTypeId, availabilityMap);
+            dateAvailability.set(updatedMap);
+            return;
         }
 
+        isLoadingDateAvailability.set(true);
+
         // Update the store with loading states immediately
         const updatedMap = new Map(currentMap);
         updatedMap.set(ticketTypeId, availabilityMap);
         dateAvailability.set(updatedMap);
 
-        // Wait for all API calls to complete
-        await Promise.allSettled(promises);
+        if (rangeEndpointSupported) {
+            try {
+                const from = pendingDates[0];
+                const to = pendingDates[pendingDates.length - 1];
+                const days = await apiClient.getAvailability(ticketTypeId, from, to, customFetch, { signal });
+                applyRangeAvailability(availabilityMap, pendingDates, days);
+            } catch (error) {
+                if (error instanceof RequestAbortedError) {
+                    // Superseded: the newer load owns the store now
+                } else if (isUnsupportedEndpointError(error)) {
+                    console.warn('[BookingStore] Availability range endpoint not supported, falling back to per-day requests');
+                    rangeEndpointSupported = false;
+                } else {
+                    console.error(`[BookingStore] Failed to load availability for ${year}-${month + 1}:`, error);
+                    pendingDates.forEach(dateString => availabilityMap.set(dateString, 'unavailable'));
+                }
+            }
+        }
+
+        if (!rangeEndpointSupported && !signal.aborted) {
+            await loadAvailabilityPerDay(ticketTypeId, pendingDates, availabilityMap, customFetch, signal);
+        }
+
+        if (signal.aborted) {
+            console.log(`[BookingStore] Discarding superseded availability load for ${year}-${month + 1}`);
+            return;
+        }
+        finishLoad('availability', signal);
 
         // Update the store with final results
         const finalMap = new Map(get(dateAvailability));
@@ -281,8 +636,15 @@ export const bookingActions = {
         isLoadingTicketTypes.set(true);
         bookingError.set(null);
         try {
-            const ticketTypes: TicketType[] = await apiClient.getTicketTypes(customFetch);
+            const [ticketTypes, rules, calendar] = await Promise.all([
+                apiClient.getTicketTypes(customFetch),
+                loadPricingRules(customFetch),
+                loadOpeningCalendar(customFetch)
+            ]);
             availableTicketTypes.set(ticketTypes);
+            pricingRules.set(rules);
+            openingCalendar.set(calendar);
+            isTicketCatalogDegraded.set(isDegraded(ticketTypes));
             console.log(`[BookingStore] Loaded ${ticketTypes.length} ticket types`);
         } catch (error) {
             console.error('[BookingStore] Failed to load ticket types:', error);
@@ -294,24 +656,29 @@ export const bookingActions = {
 
     /**
      * Loads available time slots based on the current date and ticket selection.
+     * Starting a new load cancels the previous one, whose results are then ignored.
      * @param {typeof fetch} [customFetch=fetch] - Optional custom fetch for SSR.
      */
     async loadTimeSlotsForSelection(customFetch: typeof fetch = fetch): Promise<void> {
         const date = get(selectedDate);
-        const ticket = get(selectedTicket);
+        const ticketTypeId = get(primaryTicketTypeId);
+        const signal = supersedeLoad('timeSlots');
 
-        if (!date || !ticket) {
+        if (!date || !ticketTypeId) {
+            finishLoad('timeSlots', signal);
+            isLoadingTimeSlots.set(false);
             availableTimeSlots.set([]);
             return;
         }
 
-        console.log(`[BookingStore] Loading time slots for ${date.toISOString().split('T')[0]} and ticket ${ticket.id}`);
+        const dateString = toDayKey(date);
+        console.log(`[BookingStore] Loading time slots for ${dateString} and ticket ${ticketTypeId}`);
 
         isLoadingTimeSlots.set(true);
         bookingError.set(null);
         try {
-            const dateString = date.toISOString().split('T')[0];
-            const timeSlots: TimeSlot[] = await apiClient.getTimeSlots(ticket.id, dateString, customFetch);
+            const timeSlots: TimeSlot[] = await apiClient.getTimeSlots(ticketTypeId, dateString, customFetch, { signal });
+            if (signal.aborted) return;
             availableTimeSlots.set(timeSlots);
             console.log(`[BookingStore] Loaded ${timeSlots.length} time slots`);
 
@@ -321,6 +688,7 @@ export const bookingActions = {
                 console.log(`[BookingStore] Reset selected time slot - no longer available`);
             }
         } catch (error) {
+            if (signal.aborted) return;
             console.error('[BookingStore] Failed to load time slots:', error);
             if (error instanceof Error && error.message.includes('No time slots found')) {
                 availableTimeSlots.set([]);
@@ -330,28 +698,175 @@ export const bookingActions = {
                 availableTimeSlots.set([]);
             }
         } finally {
-            isLoadingTimeSlots.set(false);
+            // A superseded load leaves the loading flag to the load that replaced it
+            if (!signal.aborted) {
+                finishLoad('timeSlots', signal);
+                isLoadingTimeSlots.set(false);
+            }
         }
     },
 
     /**
-     * Updates the selected ticket type and quantity. Replaces any existing selection.
+     * Applies a capacity update from the availability stream: the day's calendar status always, the
+     * time slots and selected slot when the update is for the day and ticket type being booked.
+     * @param {AvailabilityUpdate} update - Current capacity of one day's slots.
+     */
+    applyAvailabilityUpdate(update: AvailabilityUpdate): void {
+        // Later loads must not bring back the counts this update replaced
+        apiClient.invalidateCache(cacheKeys.timeSlots(update.ticket_type_id, update.date));
+
+        const currentMap = get(dateAvailability);
+        const availabilityMap = currentMap.get(update.ticket_type_id);
+        if (availabilityMap && availabilityMap.get(update.date) !== 'loading') {
+            const status = openDayStatus(update.date, update.time_slots.some(slot => slot.available_slots > 0));
+            if (availabilityMap.get(update.date) !== status) {
+                const updatedMap = new Map(currentMap);
+                updatedMap.set(update.ticket_type_id, new Map(availabilityMap).set(update.date, status));
+                dateAvailability.set(updatedMap);
+            }
+        }
+
+        const date = get(selectedDate);
+        if (!date || toDayKey(date) !== update.date || get(primaryTicketTypeId) !== update.ticket_type_id) return;
+        // A load in flight replaces the list when it lands
+        if (activeLoads.has('timeSlots')) return;
+
+        availableTimeSlots.set(update.time_slots);
+
+        const currentSlot = get(selectedTimeSlot);
+        if (!currentSlot) return;
+        const slot = update.time_slots.find(candidate => candidate.id === currentSlot.id);
+        if (slot) {
+            // Keeps `capacityNotice` and validation on the live count
+            selectedTimeSlot.set(slot);
+        } else {
+            selectedTimeSlot.set(null);
+            console.log(`[BookingStore] Reset selected time slot - no longer offered`);
+        }
+    },
+
+    /**
+     * Follows capacity changes for one ticket type and day until the returned function is called.
+     * The browser reconnects on its own when the stream drops.
+     * @param {string} ticketTypeId - The ticket type being booked.
+     * @param {DayKey} date - The day being viewed.
+     * @returns {() => void} - Stops following the day.
+     */
+    watchAvailability(ticketTypeId: string, date: DayKey): () => void {
+        if (typeof EventSource === 'undefined') return () => {};
+
+        const params = new URLSearchParams({ ticket_type_id: ticketTypeId, date });
+        const source = new EventSource(`/api/availability/stream?${params}`);
+        source.addEventListener('availability', (event) => {
+            try {
+                const update = availabilityUpdateSchema.parse(JSON.parse(event.data));
+                bookingActions.applyAvailabilityUpdate(update);
+            } catch (error) {
+                console.warn('[BookingStore] Ignoring malformed availability update:', error);
+            }
+        });
+        console.log(`[BookingStore] Watching availability for ${date} and ticket ${ticketTypeId}`);
+
+        return () => source.close();
+    },
+
+    /**
+     * Rebuilds the wizard from a saved booking. Unknown ticket types, past dates and slots that are gone
+     * or too full are dropped and explained in `restoreNotice`; the visitor resumes at the first step
+     * that still needs them.
+     * @param {SavedBooking} saved - State read by `readSavedBooking`.
+     * @param {typeof fetch} [customFetch=fetch] - Optional custom fetch for SSR.
+     * @returns {Promise<number>} - The step to resume at.
+     */
+    async restoreBooking(saved: SavedBooking, customFetch: typeof fetch = fetch): Promise<number> {
+        console.log('[BookingStore] Restoring saved booking', saved);
+        restoreNotice.set(null);
+
+        if (get(availableTicketTypes).length === 0) {
+            await this.loadTicketTypes(customFetch);
+        }
+        const knownTypes = new Set(get(availableTicketTypes).map(tt => tt.id));
+        const tickets = saved.tickets.filter(([ticketTypeId]) => knownTypes.has(ticketTypeId));
+        selectedTickets.set(new Map(tickets));
+        const groupType = selectedGroupTicketType();
+        if (groupType) {
+            // A group visit is a single group ticket, sized by its participants
+            const { min, max } = groupSizeLimits(groupType);
+            const group = { ...newGroupDetails(groupType), ...saved.group };
+            selectedTickets.set(new Map([[groupType.id, 1]]));
+            groupDetails.set({ ...group, participants: Math.min(Math.max(group.participants, min), max) });
+        } else {
+            groupDetails.set(null);
+        }
+        if (saved.customer) {
+            customerInfo.update(current => ({ ...current, ...saved.customer }));
+        }
+
+        const notices: string[] = [];
+        if (tickets.length < saved.tickets.length) {
+            notices.push('Some of the tickets you picked are no longer on sale.');
+        }
+
+        let step = tickets.length > 0 ? 2 : 1;
+        if (step > 1 && saved.date && saved.date < museumToday()) {
+            notices.push('Your saved visit date has passed. Please choose a new date.');
+        } else if (step > 1 && saved.date) {
+            selectedDate.set(fromDayKey(saved.date));
+            step = 3;
+        }
+
+        const hold = saved.hold && Date.parse(saved.hold.expires_at) > Date.now() ? saved.hold : undefined;
+        if (step === 3 && saved.timeSlotId) {
+            await this.loadTimeSlotsForSelection(customFetch);
+            const slot = get(availableTimeSlots).find(candidate => candidate.id === saved.timeSlotId);
+            // Places under our own hold are already taken out of the slot's availability
+            const isHeld = hold?.time_slot_id === saved.timeSlotId && hold.quantity === get(requiredPlaces);
+
+            if (!slot) {
+                notices.push('Your saved time slot no longer exists. Please pick another time.');
+            } else if (!isHeld && slot.available_slots < get(requiredPlaces)) {
+                notices.push(`Your saved time slot has only ${slot.available_slots} places left. Please pick another time.`);
+            } else {
+                selectedTimeSlot.set(slot);
+                if (isHeld) seatHold.set(hold);
+                step = 4;
+            }
+        }
+
+        if (hold && get(seatHold) !== hold) {
+            apiClient.releaseSeatHold(hold.id).catch(() => undefined);
+        }
+
+        restoreNotice.set(notices.length > 0 ? notices.join(' ') : null);
+        return Math.min(Math.max(saved.step, 1), step);
+    },
+
+    /**
+     * Sets the quantity of one ticket type; other selected types are kept.
      * @param {string} ticketTypeId - The ID of the ticket type.
-     * @param {number} quantity - The new quantity.
+     * @param {number} quantity - The new quantity (0 removes the type from the booking).
      */
     updateTicketQuantity(ticketTypeId: string, quantity: number): void {
-        const currentTicket = get(selectedTicket);
+        const previousPrimary = get(primaryTicketTypeId);
         console.log(`[BookingStore] Updating ticket quantity: ${ticketTypeId} = ${quantity}`);
 
-        if (quantity > 0) {
-            selectedTicket.set({ id: ticketTypeId, quantity });
-        } else {
-            selectedTicket.set(null);
-        }
+        selectedTickets.update(current => {
+            const next = new Map(current);
+            if (quantity > 0) {
+                next.set(ticketTypeId, quantity);
+            } else {
+                next.delete(ticketTypeId);
+            }
+            return next;
+        });
 
-        // If ticket type changed, clear availability cache and dependent state
-        if (currentTicket?.id !== ticketTypeId) {
-            console.log(`[BookingStore] Ticket type changed, clearing dependent state`);
+        // The hold covers the old quantity
+        dropSeatHold();
+
+        // Date and time slot belong to the primary ticket type; only a new primary invalidates them.
+        // Other quantity changes keep the slot and are checked against its capacity on validation.
+        if (get(primaryTicketTypeId) !== previousPrimary) {
+            console.log(`[BookingStore] Primary ticket type changed, clearing dependent state`);
             // Don't clear the entire dateAvailability cache, just reset selection-dependent state
             selectedDate.set(null);
             selectedTimeSlot.set(null);
@@ -361,12 +876,61 @@ export const bookingActions = {
         validationErrors.update(current => ({ ...current, tickets: undefined, capacity: undefined }));
     },
 
+    /**
+     * Switches to booking a group visit with the given group ticket type. Individual tickets are
+     * dropped; organiser details already entered are kept, with the group size fitted to the new type.
+     * @param {string} ticketTypeId - The ID of a group ticket type.
+     */
+    startGroupBooking(ticketTypeId: string): void {
+        const ticketType = get(availableTicketTypes).find(tt => tt.id === ticketTypeId);
+        if (!ticketType || !isGroupTicketType(ticketType)) return;
+        console.log(`[BookingStore] Starting group booking with ticket ${ticketTypeId}`);
+
+        for (const otherId of get(selectedTickets).keys()) {
+            if (otherId !== ticketTypeId) this.updateTicketQuantity(otherId, 0);
+        }
+        this.updateTicketQuantity(ticketTypeId, 1);
+
+        const { min, max } = groupSizeLimits(ticketType);
+        const current = get(groupDetails) ?? newGroupDetails(ticketType);
+        groupDetails.set({ ...current, participants: Math.min(Math.max(current.participants, min), max) });
+        validationErrors.update(current => ({ ...current, participants: undefined }));
+    },
+
+    /**
+     * Leaves the group path: the group ticket and its details are dropped.
+     */
+    leaveGroupBooking(): void {
+        console.log('[BookingStore] Leaving group booking');
+        const groupType = selectedGroupTicketType();
+        if (groupType) this.updateTicketQuantity(groupType.id, 0);
+        groupDetails.set(null);
+    },
+
+    /**
+     * Updates the details of the group visit. A new group size releases the seat hold, which covers the old one.
+     * @param {Partial<GroupDetails>} details - Changed fields.
+     */
+    updateGroupDetails(details: Partial<GroupDetails>): void {
+        const current = get(groupDetails);
+        if (!current) return;
+        if (details.participants !== undefined && details.participants !== current.participants) {
+            dropSeatHold();
+        }
+        groupDetails.set({ ...current, ...details });
+
+        const cleared = Object.fromEntries(Object.keys(details).map(key => [key, undefined]));
+        validationErrors.update(errors => ({ ...errors, ...cleared, capacity: undefined }));
+    },
+
     /**
      * Sets the selected date and clears dependent state (time slot).
      * @param {Date} date - The selected date.
      */
     setSelectedDate(date: Date): void {
-        console.log(`[BookingStore] Setting selected date: ${date.toISOString().split('T')[0]}`);
+        console.log(`[BookingStore] Setting selected date: ${toDayKey(date)}`);
+        dropSeatHold();
+        restoreNotice.set(null);
         selectedDate.set(date);
         selectedTimeSlot.set(null);
         availableTimeSlots.set([]);
@@ -379,7 +943,10 @@ export const bookingActions = {
      */
     setSelectedTimeSlot(timeSlot: TimeSlot): void {
         console.log(`[BookingStore] Setting selected time slot: ${timeSlot.id}`);
+        if (get(seatHold)?.time_slot_id !== timeSlot.id) dropSeatHold();
         selectedTimeSlot.set(timeSlot);
+        holdExpired.set(false);
+        restoreNotice.set(null);
         validationErrors.update(current => ({ ...current, timeSlot: undefined, capacity: undefined }));
     },
 
@@ -405,7 +972,7 @@ export const bookingActions = {
         console.log(`[BookingStore] Validating booking:`, { summary, customer });
 
         if (!summary.date) errors.date = 'Please select a visit date';
-        if (summary.totalTickets === 0) errors.tickets = 'Please select a ticket';
+        if (summary.totalTickets === 0) errors.tickets = 'Please select at least one ticket';
         if (!summary.timeSlot) errors.timeSlot = 'Please select a time slot';
 
         if (customer.isGuest) {
@@ -413,8 +980,28 @@ export const bookingActions = {
             if (!customer.email || !customer.email.includes('@')) errors.email = 'Please enter a valid email address';
         }
 
-        if (summary.timeSlot && summary.totalTickets > summary.timeSlot.available_slots) {
-            errors.capacity = `Only ${summary.timeSlot.available_slots} tickets are available for this slot.`;
+        const group = get(groupDetails);
+        const groupType = selectedGroupTicketType();
+        if (group && groupType) {
+            const { min, max } = groupSizeLimits(groupType);
+            if (!Number.isInteger(group.participants) || group.participants < min || group.participants > max) {
+                errors.participants = `Groups must have between ${min} and ${max} participants`;
+            }
+            if (!group.organisation.trim()) errors.organisation = 'Please enter the school or organisation';
+            if (!/^\+?[\d\s().-]{6,}$/.test(group.phone.trim())) errors.phone = 'Please enter a valid phone number';
+            if (group.payByInvoice) {
+                if (!group.invoiceTaxId.trim()) errors.invoiceTaxId = 'Please enter a VAT number or fiscal code';
+                if (!group.invoiceAddress.trim()) errors.invoiceAddress = 'Please enter the billing address';
+            }
+        }
+
+        // Line items share the slot, so its capacity must cover their combined quantity (or the group's size)
+        const places = get(requiredPlaces);
+        const free = summary.timeSlot
+            ? summary.timeSlot.available_slots + heldPlaces(get(seatHold), summary.timeSlot.id, places)
+            : places;
+        if (places > free) {
+            errors.capacity = `Only ${free} places are left in this slot for your ${places} ${group ? 'participants' : 'tickets'}.`;
         }
 
         validationErrors.set(errors);
@@ -423,6 +1010,107 @@ export const bookingActions = {
         return isValid;
     },
 
+    /**
+     * Reserves the selected places before moving to payment. A still valid hold for the same
+     * slot and quantity is reused.
+     * @param {typeof fetch} [customFetch=fetch] - Optional custom fetch for SSR.
+     * @returns {Promise<boolean>} - True once the places are held.
+     */
+    async placeSeatHold(customFetch: typeof fetch = fetch): Promise<boolean> {
+        const current = get(seatHold);
+        if (current && holdMatchesSelection(current)) return true;
+        dropSeatHold();
+
+        const summary = get(bookingSummary);
+        if (!summary.timeSlot || summary.tickets.length === 0) return false;
+
+        isCreatingBooking.set(true);
+        bookingError.set(null);
+        try {
+            const hold = await apiClient.createSeatHold({
+                time_slot_id: summary.timeSlot.id,
+                line_items: toBookingLineItems(summary.tickets),
+                participants: get(groupDetails)?.participants
+            }, customFetch);
+            seatHold.set(hold);
+            holdExpired.set(false);
+            console.log(`[BookingStore] Holding ${hold.quantity} places until ${hold.expires_at}`);
+            return true;
+        } catch (error) {
+            console.error('[BookingStore] Failed to hold seats:', error);
+            if (error instanceof ApiError && error.status === 409) {
+                bookingError.set('These places were just taken. Please pick another time slot.');
+                await this.loadTimeSlotsForSelection(customFetch);
+            } else {
+                bookingError.set('Unable to reserve your places. Please try again.');
+            }
+            return false;
+        } finally {
+            isCreatingBooking.set(false);
+        }
+    },
+
+    /**
+     * Sends a group visit paid by invoice straight to the backend, skipping the checkout. The booking
+     * is stored as PENDING until staff confirm it.
+     * @param {typeof fetch} [customFetch=fetch] - Optional custom fetch for SSR.
+     * @returns {Promise<Booking | null>} - The stored booking, or null if it could not be made.
+     */
+    async requestGroupBooking(customFetch: typeof fetch = fetch): Promise<Booking | null> {
+        const group = get(groupDetails);
+        if (!group?.payByInvoice || !this.validateBooking()) return null;
+
+        isCreatingBooking.set(true);
+        bookingError.set(null);
+        try {
+            const summary = get(bookingSummary);
+            const customer = get(customerInfo);
+            const booking = await apiClient.createBooking({
+                time_slot_id: summary.timeSlot!.id,
+                line_items: toBookingLineItems(summary.tickets),
+                customer_name: customer.name,
+                customer_email: customer.email,
+                hold_id: get(seatHold)?.id,
+                group: toGroupBookingPayload(group)
+            }, customFetch);
+            // The booking took over the held places
+            seatHold.set(null);
+            console.log(`[BookingStore] Group booking ${booking.id} requested, awaiting staff confirmation`);
+            return booking;
+        } catch (error) {
+            console.error('[BookingStore] Failed to request group booking:', error);
+            if (error instanceof ApiError && error.status === 409) {
+                bookingError.set('This time slot no longer has room for your group. Please pick another time.');
+                await this.loadTimeSlotsForSelection(customFetch);
+            } else {
+                bookingError.set('Unable to send your group booking. Please try again.');
+            }
+            return null;
+        } finally {
+            isCreatingBooking.set(false);
+        }
+    },
+
+    /**
+     * Ends a hold that ran out: its places go back to the slot and the visitor picks a time again.
+     */
+    expireHold(): void {
+        if (!get(seatHold)) return;
+        console.log('[BookingStore] Seat hold expired');
+        dropSeatHold();
+        selectedTimeSlot.set(null);
+        availableTimeSlots.set([]);
+        holdExpired.set(true);
+    },
+
+    /**
+     * Forgets the hold once the booking has been paid: the backend turned it into the booking.
+     */
+    consumeSeatHold(): void {
+        seatHold.set(null);
+        holdExpired.set(false);
+    },
+
     /**
      * This method is now DEPRECATED in favor of creating a full order payload for the
      * `/payments/create-payment-intent` endpoint. A standalone booking creation via the
@@ -443,13 +1131,15 @@ export const bookingActions = {
         try {
             const summary = get(bookingSummary);
             const customer = get(customerInfo);
-            const ticket = get(selectedTicket);
+            const group = get(groupDetails);
 
-            const bookingData: BookingData = {
+            const bookingData: BookingCreate = {
                 time_slot_id: summary.timeSlot!.id,
-                quantity: ticket!.quantity,
+                line_items: toBookingLineItems(summary.tickets),
                 customer_name: customer.name,
                 customer_email: customer.email,
+                hold_id: get(seatHold)?.id,
+                group: group ? toGroupBookingPayload(group) : undefined
             };
 
             // The standalone booking endpoint is no longer the primary path.
@@ -475,9 +1165,13 @@ export const bookingActions = {
      */
     resetBooking(): void {
         console.log(`[BookingStore] Resetting booking state`);
+        dropSeatHold();
+        holdExpired.set(false);
+        restoreNotice.set(null);
         selectedDate.set(null);
         selectedTimeSlot.set(null);
-        selectedTicket.set(null);
+        selectedTickets.set(new Map());
+        groupDetails.set(null);
         availableTimeSlots.set([]);
         dateAvailability.set(new Map()); // Clear availability cache
         customerInfo.set({ name: '', email: '', isGuest: true });
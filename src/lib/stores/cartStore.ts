@@ -5,20 +5,31 @@
     * @dependencies
     * - svelte/store: For creating writable and derived stores.
     * - $lib/api/apiClient: For the Merchandise type definition.
+    * - $lib/schemas/payment: The details of gift vouchers in the cart.
     *
     * @notes
     * - The cart state is persisted to `localStorage` to survive page reloads and new sessions.
     * - It provides reactive derived stores for `cartCount` and `cartTotal` for easy display in the UI.
     * - All interactions with the cart (add, remove, update) are handled through exported functions.
+    * - Gift vouchers sit in the cart as one item each, carrying the details entered in the shop. They count
+    *   towards `cartTotal` but not `merchandiseTotal`, and are sent as `gift_vouchers` rather than merchandise.
     * - Error handling: Assumes valid product data is passed in; validation should occur at the component level.
     */
 
 import { writable, derived, type Writable } from 'svelte/store';
 import type { Merchandise } from '$lib/api/apiClient';
+import type { GiftVoucherCreate } from '$lib/schemas/payment';
 
 /** Defines the structure of an item within the shopping cart. */
 export interface CartItem extends Merchandise {
     quantity: number;
+    /** Set when the item is a gift voucher rather than a product. */
+    giftVoucher?: GiftVoucherCreate;
+}
+
+/** Whether a cart item is a gift voucher. */
+export function isGiftVoucherItem(item: CartItem): item is CartItem & { giftVoucher: GiftVoucherCreate } {
+    return item.giftVoucher !== undefined;
 }
 
 const CART_STORAGE_KEY = 'zungri-museum-cart';
@@ -62,6 +73,29 @@ function createCartStore() {
         });
     }
 
+    /**
+     * Adds a gift voucher to the cart. Each voucher is its own item, even for the same amount.
+     * @param voucher The voucher's details, already validated.
+     */
+    function addGiftVoucher(voucher: GiftVoucherCreate) {
+        const now = new Date().toISOString();
+        store.update((items) => [
+            ...items,
+            {
+                id: `gift-voucher-${crypto.randomUUID()}`,
+                name_translations: { it: 'Buono regalo', en: 'Gift voucher' },
+                description_translations: { it: `Per ${voucher.recipient_name}`, en: `For ${voucher.recipient_name}` },
+                price: voucher.amount,
+                inventory: 1,
+                quantity: 1,
+                created_at: now,
+                updated_at: now,
+                images: [],
+                giftVoucher: voucher
+            }
+        ]);
+    }
+
     /**
      * Removes an item entirely from the cart.
      * @param productId The ID of the product to remove.
@@ -97,6 +131,7 @@ function createCartStore() {
     return {
         subscribe: store.subscribe,
         addToCart,
+        addGiftVoucher,
         removeFromCart,
         updateQuantity,
         clearCart
@@ -114,4 +149,14 @@ export const cartCount = derived(cart, ($cart) => {
 /** A derived store that calculates the total price of all items in the cart. */
 export const cartTotal = derived(cart, ($cart) => {
     return $cart.reduce((total, item) => total + item.price * item.quantity, 0);
-});
\ No newline at end of file
+});
+
+/** A derived store that calculates the total price of the products in the cart, without gift vouchers. */
+export const merchandiseTotal = derived(cart, ($cart) => {
+    return $cart.filter((item) => !isGiftVoucherItem(item)).reduce((total, item) => total + item.price * item.quantity, 0);
+});
+
+/** A derived store that calculates the total value of the gift vouchers in the cart. */
+export const giftVoucherTotal = derived(cart, ($cart) => {
+    return $cart.filter(isGiftVoucherItem).reduce((total, item) => total + item.price * item.quantity, 0);
+});
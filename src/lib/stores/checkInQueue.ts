@@ -0,0 +1,68 @@
+/**
+ * @file checkInQueue.ts
+ * @purpose Holds ticket scans made at the entrance while the check-in device is offline.
+ *
+ * @dependencies
+ * - svelte/store: For the writable store.
+ *
+ * @notes
+ * - The queue is persisted to `localStorage`, so scans survive a reload or a flat battery until they are sent.
+ * - Scans keep the time they were made; the server records that as the check-in time.
+ * - A ticket is queued once: scanning it again while it waits is reported as a duplicate by `enqueue`.
+ */
+
+import { writable, type Writable } from 'svelte/store';
+
+/** A scanned ticket waiting to be sent to the server. */
+export interface QueuedCheckIn {
+    token: string;
+    scannedAt: string;
+}
+
+const CHECK_IN_QUEUE_STORAGE_KEY = 'zungri-museum-check-in-queue';
+
+/**
+ * Creates the check-in queue store, synchronised with localStorage.
+ * @returns An object with store subscription and queue methods.
+ */
+function createCheckInQueue() {
+    const isBrowser = typeof window !== 'undefined';
+    const initialValue: QueuedCheckIn[] = isBrowser
+        ? JSON.parse(localStorage.getItem(CHECK_IN_QUEUE_STORAGE_KEY) || '[]')
+        : [];
+
+    const store: Writable<QueuedCheckIn[]> = writable(initialValue);
+
+    if (isBrowser) {
+        store.subscribe((value) => {
+            localStorage.setItem(CHECK_IN_QUEUE_STORAGE_KEY, JSON.stringify(value));
+        });
+    }
+
+    /**
+     * Queues a scan to send once the device is back online.
+     * @returns False when the ticket is already waiting in the queue.
+     */
+    function enqueue(checkIn: QueuedCheckIn): boolean {
+        let added = false;
+        store.update((items) => {
+            if (items.some((item) => item.token === checkIn.token)) return items;
+            added = true;
+            return [...items, checkIn];
+        });
+        return added;
+    }
+
+    /** Drops a scan once the server has answered for it. */
+    function remove(token: string) {
+        store.update((items) => items.filter((item) => item.token !== token));
+    }
+
+    return {
+        subscribe: store.subscribe,
+        enqueue,
+        remove
+    };
+}
+
+export const checkInQueue = createCheckInQueue();
@@ -0,0 +1,86 @@
+/**
+ * @file giftVoucherStore.ts
+ * @purpose Holds the gift voucher redeemed at checkout and what is left to pay once it is spent.
+ *
+ * @dependencies
+ * - svelte/store: For the writable and derived stores.
+ * - $lib/api/apiClient: Looks up vouchers with the backend.
+ * - $lib/stores/promoCodeStore: The order totals, after any promo code, the voucher pays towards.
+ * - $lib/utils/giftVouchers: The redemption calculation shared with the mock backend.
+ *
+ * @notes
+ * - The redeemed voucher is persisted to `sessionStorage`, like the promo code, so it survives a reload of /checkout.
+ * - A voucher is checked when applied; the backend checks its balance again when the order is paid
+ *   and takes from it only what the order uses, keeping the rest for later.
+ */
+
+import { writable, derived, type Readable, type Writable } from 'svelte/store';
+import { apiClient, ApiError, NetworkError, type GiftVoucher } from '$lib/api/apiClient';
+import { orderTotals } from '$lib/stores/promoCodeStore';
+import { normalizeGiftVoucherCode, redeemGiftVoucher, type RedeemedTotals } from '$lib/utils/giftVouchers';
+
+const GIFT_VOUCHER_STORAGE_KEY = 'zungri-museum-gift-voucher';
+
+/**
+ * Creates the redeemed gift voucher store, synchronised with sessionStorage.
+ * @returns An object with store subscription and gift voucher methods.
+ */
+function createGiftVoucherStore() {
+    const isBrowser = typeof window !== 'undefined';
+    const initialValue: GiftVoucher | null = isBrowser
+        ? JSON.parse(sessionStorage.getItem(GIFT_VOUCHER_STORAGE_KEY) || 'null')
+        : null;
+
+    const store: Writable<GiftVoucher | null> = writable(initialValue);
+
+    if (isBrowser) {
+        store.subscribe((value) => {
+            if (value) {
+                sessionStorage.setItem(GIFT_VOUCHER_STORAGE_KEY, JSON.stringify(value));
+            } else {
+                sessionStorage.removeItem(GIFT_VOUCHER_STORAGE_KEY);
+            }
+        });
+    }
+
+    /**
+     * Looks up a voucher with the backend and redeems it, replacing any voucher redeemed before.
+     * @param code The code as the visitor typed it
+     * @returns Null once redeemed, or a message explaining why the voucher was refused
+     */
+    async function apply(code: string, customFetch: typeof fetch = fetch): Promise<string | null> {
+        const normalized = normalizeGiftVoucherCode(code);
+        if (!normalized) return 'Please enter a gift voucher code.';
+
+        try {
+            store.set(await apiClient.getGiftVoucher(normalized, customFetch));
+            return null;
+        } catch (error) {
+            console.error('[GiftVoucherStore] Failed to look up gift voucher:', error);
+            if (error instanceof ApiError && error.status === 404) return 'This gift voucher does not exist.';
+            if (error instanceof ApiError && error.status === 410) return 'This gift voucher has expired or been spent.';
+            if (error instanceof NetworkError) return 'Unable to check the gift voucher. Please try again.';
+            return error instanceof ApiError ? error.detail : 'Unable to redeem the gift voucher. Please try again.';
+        }
+    }
+
+    /** Stops redeeming the voucher. */
+    function clear() {
+        store.set(null);
+    }
+
+    return {
+        subscribe: store.subscribe,
+        apply,
+        clear
+    };
+}
+
+/** The gift voucher redeemed on the order, or null. */
+export const giftVoucher = createGiftVoucherStore();
+
+/** Totals of the order being checked out, with the promo code taken off and the gift voucher spent. */
+export const redeemedTotals: Readable<RedeemedTotals> = derived(
+    [orderTotals, giftVoucher],
+    ([$orderTotals, $giftVoucher]) => redeemGiftVoucher($giftVoucher, $orderTotals)
+);
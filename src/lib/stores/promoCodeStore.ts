@@ -0,0 +1,94 @@
+/**
+ * @file promoCodeStore.ts
+ * @purpose Holds the promo code applied at checkout and the order totals it gives.
+ *
+ * @dependencies
+ * - svelte/store: For the writable and derived stores.
+ * - $lib/api/apiClient: Checks codes with the backend.
+ * - $lib/stores/bookingStore, cartStore: The ticket, merchandise and gift voucher totals being discounted.
+ * - $lib/utils/promoCodes: The discount calculation shared with the mock backend.
+ *
+ * @notes
+ * - The applied code is persisted to `sessionStorage`, like the booking, so it survives a reload of /checkout.
+ * - A code is checked when applied; the backend checks it again when the payment intent is created
+ *   and charges the discounted total.
+ * - `orderTotals` recomputes whenever the booking, the cart or the code changes. A code scoped to
+ *   tickets or merchandise takes nothing off an order without them. Gift vouchers in the cart are never discounted.
+ */
+
+import { writable, derived, type Readable, type Writable } from 'svelte/store';
+import { apiClient, ApiError, NetworkError, type PromoCode } from '$lib/api/apiClient';
+import { bookingSummary } from '$lib/stores/bookingStore';
+import { giftVoucherTotal, merchandiseTotal } from '$lib/stores/cartStore';
+import { applyPromoCode, normalizePromoCode, type DiscountedTotals } from '$lib/utils/promoCodes';
+
+const PROMO_CODE_STORAGE_KEY = 'zungri-museum-promo-code';
+
+/**
+ * Creates the promo code store, synchronised with sessionStorage.
+ * @returns An object with store subscription and promo code methods.
+ */
+function createPromoCodeStore() {
+    const isBrowser = typeof window !== 'undefined';
+    const initialValue: PromoCode | null = isBrowser
+        ? JSON.parse(sessionStorage.getItem(PROMO_CODE_STORAGE_KEY) || 'null')
+        : null;
+
+    const store: Writable<PromoCode | null> = writable(initialValue);
+
+    if (isBrowser) {
+        store.subscribe((value) => {
+            if (value) {
+                sessionStorage.setItem(PROMO_CODE_STORAGE_KEY, JSON.stringify(value));
+            } else {
+                sessionStorage.removeItem(PROMO_CODE_STORAGE_KEY);
+            }
+        });
+    }
+
+    /**
+     * Checks a code with the backend and applies it, replacing any code applied before.
+     * @param code The code as the visitor typed it
+     * @returns Null once applied, or a message explaining why the code was refused
+     */
+    async function apply(code: string, customFetch: typeof fetch = fetch): Promise<string | null> {
+        const normalized = normalizePromoCode(code);
+        if (!normalized) return 'Please enter a promo code.';
+
+        try {
+            store.set(await apiClient.validatePromoCode(normalized, customFetch));
+            return null;
+        } catch (error) {
+            console.error('[PromoCodeStore] Failed to validate promo code:', error);
+            if (error instanceof ApiError && error.status === 404) return 'This promo code does not exist.';
+            if (error instanceof ApiError && error.status === 410) return 'This promo code has expired or been used up.';
+            if (error instanceof NetworkError) return 'Unable to check the promo code. Please try again.';
+            return error instanceof ApiError ? error.detail : 'Unable to apply the promo code. Please try again.';
+        }
+    }
+
+    /** Removes the applied code. */
+    function clear() {
+        store.set(null);
+    }
+
+    return {
+        subscribe: store.subscribe,
+        apply,
+        clear
+    };
+}
+
+/** The promo code applied to the order, or null. */
+export const promoCode = createPromoCodeStore();
+
+/** Totals of the order being checked out, with the promo code taken off. */
+export const orderTotals: Readable<DiscountedTotals> = derived(
+    [bookingSummary, merchandiseTotal, giftVoucherTotal, promoCode],
+    ([$bookingSummary, $merchandiseTotal, $giftVoucherTotal, $promoCode]) =>
+        applyPromoCode($promoCode, {
+            tickets: $bookingSummary.totalPrice,
+            merchandise: $merchandiseTotal,
+            giftVouchers: $giftVoucherTotal
+        })
+);
@@ -0,0 +1,37 @@
+// File: frontend/src/lib/utils/bookingPolicy.ts
+import type { Booking } from '$lib/api/apiClient';
+
+/**
+ * What visitors may do with a booking after making it. Shared by the `/bookings` pages and
+ * the mock backend, so the page only offers changes the backend will accept.
+ *
+ * A booking can be cancelled or moved to another time slot of the same ticket type until
+ * `CHANGE_CUTOFF_HOURS` before its visit starts. After that only the museum can change it.
+ */
+
+export const CHANGE_CUTOFF_HOURS = 48;
+
+/** Statuses a visitor can still cancel or reschedule. */
+const CHANGEABLE_STATUSES: Booking['status'][] = ['PENDING', 'CONFIRMED'];
+
+/**
+ * The short reference printed on confirmations and asked for by the lookup form:
+ * the first block of the booking id, uppercased.
+ */
+export function bookingReference(bookingId: string): string {
+    return bookingId.slice(0, 8).toUpperCase();
+}
+
+/** The last moment a booking for a slot starting at `slotStart` can be changed. */
+export function changeDeadline(slotStart: Date | string): Date {
+    return new Date(new Date(slotStart).getTime() - CHANGE_CUTOFF_HOURS * 3_600_000);
+}
+
+/**
+ * Whether the visitor may still cancel or reschedule a booking.
+ * @param status The booking's status
+ * @param slotStart Start of the booked time slot
+ */
+export function canChangeBooking(status: Booking['status'], slotStart: Date | string, now: Date = new Date()): boolean {
+    return CHANGEABLE_STATUSES.includes(status) && now < changeDeadline(slotStart);
+}
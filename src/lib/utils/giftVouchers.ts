@@ -0,0 +1,83 @@
+// File: frontend/src/lib/utils/giftVouchers.ts
+import type { GiftVoucher } from '$lib/api/apiClient';
+import type { GiftVoucherCreate } from '$lib/schemas/payment';
+import { addDays, isDayKey, museumToday, type DayKey } from '$lib/utils/museumTime';
+import type { DiscountedTotals } from '$lib/utils/promoCodes';
+import { validateEmail } from '$lib/utils/validation';
+
+/**
+ * Gift vouchers. Shared by the shop, checkout and the mock backend, so a voucher is checked
+ * and spent the same way everywhere.
+ *
+ * A voucher pays for tickets and merchandise after any promo code discount, but not for other
+ * vouchers. Whatever it does not cover is paid by card; whatever the order does not use stays
+ * on the voucher for a later visit.
+ */
+
+export const GIFT_VOUCHER_MIN_AMOUNT = 10;
+export const GIFT_VOUCHER_MAX_AMOUNT = 300;
+export const GIFT_VOUCHER_MESSAGE_MAX_LENGTH = 300;
+export const GIFT_VOUCHER_NAME_MAX_LENGTH = 80;
+/** How long a voucher can be spent for, from the day it is bought. */
+export const GIFT_VOUCHER_VALIDITY_MONTHS = 12;
+/** How far ahead a voucher's delivery can be scheduled. */
+const MAX_DELIVERY_DAYS_AHEAD = 365;
+
+/** An order's totals with a gift voucher spent on them. */
+export interface RedeemedTotals extends DiscountedTotals {
+    /** Taken from the voucher's balance, 0 without a voucher. */
+    redeemed: number;
+    /** Left to pay by card. */
+    amountDue: number;
+}
+
+function roundToCents(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+/** Codes are matched case-insensitively, ignoring spaces. */
+export function normalizeGiftVoucherCode(code: string): string {
+    return code.replace(/\s+/g, '').toUpperCase();
+}
+
+/** Whether a voucher can still be spent: it has a balance left and has not expired. */
+export function isGiftVoucherRedeemable(voucher: GiftVoucher, now: Date = new Date()): boolean {
+    return voucher.balance > 0 && Date.parse(voucher.expires_at) > now.getTime();
+}
+
+/**
+ * Spends a gift voucher on an order.
+ * @param voucher The voucher, or null for none
+ * @param totals The order's totals, with any promo code already applied
+ */
+export function redeemGiftVoucher(voucher: GiftVoucher | null, totals: DiscountedTotals): RedeemedTotals {
+    const redeemable = Math.max(0, totals.total - totals.giftVouchers);
+    const redeemed = voucher ? roundToCents(Math.min(voucher.balance, redeemable)) : 0;
+    return { ...totals, redeemed, amountDue: roundToCents(totals.total - redeemed) };
+}
+
+/**
+ * Checks the details of a voucher being bought.
+ * @param purchase The voucher as entered in the shop
+ * @param today The museum's current day
+ * @returns Null when the details are valid, or a message (in Italian, like the shop) explaining what is wrong
+ */
+export function validateGiftVoucherPurchase(purchase: GiftVoucherCreate, today: DayKey = museumToday()): string | null {
+    const { amount, recipient_name, recipient_email, sender_name, message, delivery_date } = purchase;
+    if (!Number.isFinite(amount) || amount < GIFT_VOUCHER_MIN_AMOUNT || amount > GIFT_VOUCHER_MAX_AMOUNT) {
+        return `L'importo deve essere tra €${GIFT_VOUCHER_MIN_AMOUNT} e €${GIFT_VOUCHER_MAX_AMOUNT}.`;
+    }
+    if (roundToCents(amount) !== amount) return "L'importo non può avere più di due decimali.";
+    if (!recipient_name.trim()) return 'Inserisci il nome del destinatario.';
+    if (recipient_name.length > GIFT_VOUCHER_NAME_MAX_LENGTH || (sender_name?.length ?? 0) > GIFT_VOUCHER_NAME_MAX_LENGTH) {
+        return `I nomi possono avere al massimo ${GIFT_VOUCHER_NAME_MAX_LENGTH} caratteri.`;
+    }
+    if (recipient_email && !validateEmail(recipient_email)) return "L'indirizzo email del destinatario non è valido.";
+    if ((message?.length ?? 0) > GIFT_VOUCHER_MESSAGE_MAX_LENGTH) {
+        return `Il messaggio può avere al massimo ${GIFT_VOUCHER_MESSAGE_MAX_LENGTH} caratteri.`;
+    }
+    if (!isDayKey(delivery_date) || delivery_date < today || delivery_date > addDays(today, MAX_DELIVERY_DAYS_AHEAD)) {
+        return "La data di consegna deve essere tra oggi e un anno da oggi.";
+    }
+    return null;
+}
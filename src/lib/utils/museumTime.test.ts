@@ -0,0 +1,96 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import {
+    addDays,
+    daysOfMonth,
+    formatMuseumTime,
+    fromDayKey,
+    museumDateTimeOf,
+    museumDayOf,
+    museumTimeToIso,
+    toDayKey
+} from './museumTime';
+
+describe('museumTimeToIso', () => {
+    it('converts winter and summer times with their own offsets', () => {
+        expect(museumTimeToIso('2025-01-15', '09:30')).toBe('2025-01-15T08:30:00.000Z');
+        expect(museumTimeToIso('2025-07-15', '09:30')).toBe('2025-07-15T07:30:00.000Z');
+    });
+
+    it('uses the summer offset on the day clocks go forward (2025-03-30)', () => {
+        expect(museumTimeToIso('2025-03-30', '01:30')).toBe('2025-03-30T00:30:00.000Z');
+        expect(museumTimeToIso('2025-03-30', '09:00')).toBe('2025-03-30T07:00:00.000Z');
+    });
+
+    it('resolves 02:30, skipped on 2025-03-30, to the instant one hour later', () => {
+        const iso = museumTimeToIso('2025-03-30', '02:30');
+        expect(iso).toBe('2025-03-30T01:30:00.000Z');
+        expect(museumDateTimeOf(iso)).toBe('2025-03-30T03:30:00');
+    });
+
+    it('uses the winter offset on the day clocks go back (2025-10-26)', () => {
+        expect(museumTimeToIso('2025-10-26', '01:30')).toBe('2025-10-25T23:30:00.000Z');
+        expect(museumTimeToIso('2025-10-26', '09:00')).toBe('2025-10-26T08:00:00.000Z');
+    });
+
+    it('resolves 02:30, repeated on 2025-10-26, to its second occurrence', () => {
+        const iso = museumTimeToIso('2025-10-26', '02:30');
+        expect(iso).toBe('2025-10-26T01:30:00.000Z');
+        expect(museumDateTimeOf(iso)).toBe('2025-10-26T02:30:00');
+        expect(formatMuseumTime(iso)).toBe('02:30');
+    });
+});
+
+describe('museumDayOf', () => {
+    it('reads the day on the museum clock around midnight', () => {
+        expect(museumDayOf('2025-03-29T22:59:00Z')).toBe('2025-03-29');
+        expect(museumDayOf('2025-03-29T23:00:00Z')).toBe('2025-03-30');
+        expect(museumDayOf('2025-10-25T21:59:00Z')).toBe('2025-10-25');
+        expect(museumDayOf('2025-10-25T22:00:00Z')).toBe('2025-10-26');
+    });
+});
+
+describe('day keys', () => {
+    it('moves across DST changes by whole days', () => {
+        expect(addDays('2025-03-29', 1)).toBe('2025-03-30');
+        expect(addDays('2025-03-30', 1)).toBe('2025-03-31');
+        expect(addDays('2025-10-27', -1)).toBe('2025-10-26');
+    });
+
+    it('lists every day of a month with a DST change', () => {
+        const days = daysOfMonth(2025, 9);
+        expect(days).toHaveLength(31);
+        expect(days[25]).toBe('2025-10-26');
+    });
+});
+
+describe('in a timezone far from Rome (Asia/Tokyo)', () => {
+    const originalTimeZone = process.env.TZ;
+
+    beforeAll(() => {
+        process.env.TZ = 'Asia/Tokyo';
+    });
+
+    afterAll(() => {
+        process.env.TZ = originalTimeZone;
+    });
+
+    it('runs in Tokyo time', () => {
+        expect(new Date('2025-10-26T16:00:00Z').getHours()).toBe(1);
+    });
+
+    it('keeps day keys through date picker dates', () => {
+        for (const key of ['2025-03-30', '2025-10-26', '2025-12-31']) {
+            expect(toDayKey(fromDayKey(key))).toBe(key);
+        }
+    });
+
+    it('reads the museum day, not the Tokyo day', () => {
+        // 01:00 on the 27th in Tokyo, still the afternoon of the 26th in Rome
+        expect(museumDayOf('2025-10-26T16:00:00Z')).toBe('2025-10-26');
+    });
+
+    it('converts museum times without the local offset', () => {
+        expect(museumTimeToIso('2025-03-30', '02:30')).toBe('2025-03-30T01:30:00.000Z');
+        expect(museumTimeToIso('2025-10-26', '02:30')).toBe('2025-10-26T01:30:00.000Z');
+    });
+});
@@ -0,0 +1,153 @@
+// File: frontend/src/lib/utils/museumTime.ts
+
+/**
+ * Calendar days and slot times at the museum. Europe/Rome is authoritative: a day is a
+ * YYYY-MM-DD key in the museum's calendar, and slot times are shown on the museum's clock,
+ * whatever the visitor's own timezone.
+ *
+ * Date pickers hold days as local-midnight `Date`s whose calendar fields carry the key.
+ * Convert them with `toDayKey`/`fromDayKey`, never with `toISOString()`: that reads the UTC
+ * day and moves the date back by one for visitors east of UTC.
+ */
+
+export const MUSEUM_TIME_ZONE = 'Europe/Rome';
+
+/** A calendar day at the museum, formatted YYYY-MM-DD. */
+export type DayKey = string;
+
+const DAY_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const museumClock = new Intl.DateTimeFormat('en-US', {
+    timeZone: MUSEUM_TIME_ZONE,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23'
+});
+
+/** Whether a string is a real calendar day in YYYY-MM-DD form (rejects e.g. 2025-02-30). */
+export function isDayKey(value: string): boolean {
+    if (!DAY_KEY_PATTERN.test(value)) return false;
+    const date = new Date(`${value}T12:00:00Z`);
+    return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+}
+
+/** Day key of a date picker `Date`, read from its local calendar fields. */
+export function toDayKey(date: Date): DayKey {
+    return formatKey(date.getFullYear(), date.getMonth() + 1, date.getDate());
+}
+
+/** Day of the week of a day key, 0 for Sunday. */
+export function weekdayOf(key: DayKey): number {
+    return new Date(`${key}T12:00:00Z`).getUTCDay();
+}
+
+/** Local-midnight `Date` for a day key, as date pickers and `selectedDate` hold it. */
+export function fromDayKey(key: DayKey): Date {
+    const [year, month, day] = key.split('-').map(Number);
+    return new Date(year, month - 1, day);
+}
+
+/** The museum's calendar day at an instant. */
+export function museumDayOf(instant: Date | string): DayKey {
+    const { year, month, day } = museumFields(new Date(instant).getTime());
+    return formatKey(year, month, day);
+}
+
+/** The museum's wall-clock date and time at an instant, formatted YYYY-MM-DDTHH:MM:SS. */
+export function museumDateTimeOf(instant: Date | string): string {
+    const { year, month, day, hour, minute, second } = museumFields(new Date(instant).getTime());
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${formatKey(year, month, day)}T${pad(hour)}:${pad(minute)}:${pad(second)}`;
+}
+
+/** Today at the museum. Visitors far from Rome may be a day ahead or behind it. */
+export function museumToday(now: Date = new Date()): DayKey {
+    return museumDayOf(now);
+}
+
+/** Moves a day key by whole calendar days. */
+export function addDays(key: DayKey, days: number): DayKey {
+    const date = new Date(`${key}T12:00:00Z`);
+    date.setUTCDate(date.getUTCDate() + days);
+    return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Every day of a month, in order.
+ * @param year Full year
+ * @param month Month, 0-indexed like `Date#getMonth`
+ */
+export function daysOfMonth(year: number, month: number): DayKey[] {
+    const count = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+    return Array.from({ length: count }, (_, index) => formatKey(year, month + 1, index + 1));
+}
+
+/**
+ * Converts a wall-clock time at the museum into an ISO instant, across DST changes.
+ * Times skipped by the spring-forward jump resolve to the instant one hour later; times repeated
+ * by the fall-back resolve to their second occurrence, in standard time.
+ * @param key Calendar day
+ * @param time Museum time (HH:MM)
+ */
+export function museumTimeToIso(key: DayKey, time: string): string {
+    const wallClock = Date.parse(`${key}T${time}:00Z`);
+    // The offset at a first guess can differ from the offset at the result when DST changes in between
+    const guess = wallClock - offsetAt(wallClock);
+    return new Date(wallClock - offsetAt(guess)).toISOString();
+}
+
+/**
+ * Formats an instant as a time on the museum's clock, e.g. a slot's start.
+ * @param instant ISO string or Date
+ * @param locale Display locale
+ */
+export function formatMuseumTime(instant: Date | string, locale = 'en-GB'): string {
+    return new Date(instant).toLocaleTimeString(locale, {
+        timeZone: MUSEUM_TIME_ZONE,
+        hour: '2-digit',
+        minute: '2-digit'
+    });
+}
+
+/**
+ * Formats a day key for display. The day never shifts, whatever the visitor's timezone.
+ * @param key Calendar day
+ * @param locale Display locale
+ * @param options Date fields to show (time fields are meaningless here)
+ */
+export function formatDayKey(
+    key: DayKey,
+    locale = 'en-GB',
+    options: Intl.DateTimeFormatOptions = { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' }
+): string {
+    return new Date(`${key}T12:00:00Z`).toLocaleDateString(locale, { ...options, timeZone: 'UTC' });
+}
+
+function formatKey(year: number, month: number, day: number): DayKey {
+    return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function museumFields(epochMs: number) {
+    const parts = Object.fromEntries(
+        museumClock.formatToParts(new Date(epochMs)).map((part) => [part.type, Number(part.value)])
+    );
+    return {
+        year: parts.year,
+        month: parts.month,
+        day: parts.day,
+        hour: parts.hour,
+        minute: parts.minute,
+        second: parts.second
+    };
+}
+
+/** Milliseconds the museum's clock is ahead of UTC at an instant. */
+function offsetAt(epochMs: number): number {
+    const fields = museumFields(epochMs);
+    const asUtc = Date.UTC(fields.year, fields.month - 1, fields.day, fields.hour, fields.minute, fields.second);
+    return asUtc - (epochMs - (epochMs % 1000));
+}
@@ -0,0 +1,47 @@
+// File: frontend/src/lib/utils/openingCalendar.ts
+import type { OpeningCalendar, OpeningException } from '$lib/api/apiClient';
+import { weekdayOf, type DayKey } from '$lib/utils/museumTime';
+
+/**
+ * Whether, and how, the museum opens on a day. Shared by the booking calendar and the mock
+ * backend, so the days shown as closed are the days without time slots.
+ *
+ * A closing exception (a holiday) wins over everything. A special opening opens the museum even
+ * on a weekly closing day. Other days follow the weekly schedule.
+ */
+
+/** How the museum opens on one day. Closed days name their holiday, unless it is a weekly closing day. */
+export type DayOpening =
+    | { kind: 'open' }
+    | { kind: 'closed'; exception?: OpeningException }
+    | { kind: 'special'; exception: OpeningException };
+
+/** Whether an exception falls on a day. */
+export function exceptionCovers(exception: OpeningException, day: DayKey): boolean {
+    if (day < exception.date_from || day > (exception.date_to ?? exception.date_from)) return false;
+    return !exception.weekdays || exception.weekdays.includes(weekdayOf(day));
+}
+
+/**
+ * How the museum opens on a day.
+ * @param calendar The opening calendar, or null when the backend has none (every day then counts as open)
+ * @param day The day, on the museum's calendar
+ */
+export function openingOf(calendar: OpeningCalendar | null, day: DayKey): DayOpening {
+    if (!calendar) return { kind: 'open' };
+
+    const exceptions = calendar.exceptions.filter((exception) => exceptionCovers(exception, day));
+    const holiday = exceptions.find((exception) => exception.kind === 'closed');
+    if (holiday) return { kind: 'closed', exception: holiday };
+
+    const special = exceptions.find((exception) => exception.kind === 'special');
+    if (special) return { kind: 'special', exception: special };
+
+    return calendar.closed_weekdays.includes(weekdayOf(day)) ? { kind: 'closed' } : { kind: 'open' };
+}
+
+/** An exception's name in `language`, falling back to English and Italian. */
+export function exceptionName(exception: OpeningException, language: string): string {
+    const names = exception.name_translations;
+    return names[language] || names.en || names.it || '';
+}
@@ -0,0 +1,101 @@
+// File: frontend/src/lib/utils/pricing.ts
+import type { PricingRule, TicketType } from '$lib/api/apiClient';
+import { weekdayOf, type DayKey } from '$lib/utils/museumTime';
+
+/**
+ * Ticket prices for a visit day. Shared by the booking wizard, checkout and the mock backend,
+ * so the price shown is the price charged.
+ *
+ * A ticket starts from its type's `price`. Matching rules then apply in the order they are
+ * listed, each to the price left by the ones before, rounded to the cent and never below zero.
+ * A matching `free` rule overrides the others: the ticket costs nothing.
+ *
+ * Rules with date conditions need a visit day. Before one is picked only the rules for
+ * visitor categories apply, and the price shown may still change with the day.
+ */
+
+/** The ticket type fields pricing depends on. */
+export type PricedTicketType = Pick<TicketType, 'id' | 'price' | 'age_category'>;
+
+/** A rule that changed a ticket's price. */
+export interface AppliedPricingRule {
+    rule: PricingRule;
+    /** Change per ticket in euros, negative for reductions. */
+    amount: number;
+}
+
+/** A ticket's price on a visit day, with the rules that made it. */
+export interface TicketPrice {
+    basePrice: number;
+    unitPrice: number;
+    adjustments: AppliedPricingRule[];
+}
+
+function roundToCents(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+/** Whether a rule has conditions on the visit day. */
+export function isDateRule(rule: PricingRule): boolean {
+    return !!(rule.season_from || rule.season_to || rule.weekdays || rule.week_of_month);
+}
+
+/** Whether a rule concerns a ticket type, whatever the day. */
+export function ruleCoversTicketType(rule: PricingRule, ticketType: PricedTicketType): boolean {
+    if (rule.ticket_type_ids && !rule.ticket_type_ids.includes(ticketType.id)) return false;
+    if (rule.age_categories) {
+        return !!ticketType.age_category && rule.age_categories.includes(ticketType.age_category);
+    }
+    return true;
+}
+
+/** Whether a visit day meets a rule's date conditions. */
+function ruleCoversDay(rule: PricingRule, date: DayKey): boolean {
+    if (rule.season_from || rule.season_to) {
+        const monthDay = date.slice(5);
+        const from = rule.season_from ?? '01-01';
+        const to = rule.season_to ?? '12-31';
+        const inSeason = from <= to ? monthDay >= from && monthDay <= to : monthDay >= from || monthDay <= to;
+        if (!inSeason) return false;
+    }
+    if (rule.weekdays && !rule.weekdays.includes(weekdayOf(date))) return false;
+    if (rule.week_of_month && Math.ceil(Number(date.slice(8)) / 7) !== rule.week_of_month) return false;
+    return true;
+}
+
+/**
+ * Whether a rule applies to a ticket type on a visit day.
+ * @param date The visit day, or null before one is picked
+ */
+export function ruleApplies(rule: PricingRule, ticketType: PricedTicketType, date: DayKey | null): boolean {
+    if (!ruleCoversTicketType(rule, ticketType)) return false;
+    if (!isDateRule(rule)) return true;
+    return date !== null && ruleCoversDay(rule, date);
+}
+
+/**
+ * Prices one ticket.
+ * @param ticketType The ticket type, whose `price` is the base price
+ * @param rules Every pricing rule, in the order they apply
+ * @param date The visit day, or null before one is picked
+ */
+export function priceTicket(ticketType: PricedTicketType, rules: PricingRule[], date: DayKey | null): TicketPrice {
+    const basePrice = ticketType.price;
+    const matching = rules.filter((rule) => ruleApplies(rule, ticketType, date));
+
+    const free = matching.find((rule) => rule.adjustment === 'free');
+    if (free) {
+        return { basePrice, unitPrice: 0, adjustments: basePrice > 0 ? [{ rule: free, amount: -basePrice }] : [] };
+    }
+
+    let unitPrice = basePrice;
+    const adjustments: AppliedPricingRule[] = [];
+    for (const rule of matching) {
+        const change = rule.adjustment === 'percent' ? (unitPrice * (rule.value ?? 0)) / 100 : (rule.value ?? 0);
+        const next = Math.max(0, roundToCents(unitPrice + change));
+        if (next === unitPrice) continue;
+        adjustments.push({ rule, amount: roundToCents(next - unitPrice) });
+        unitPrice = next;
+    }
+    return { basePrice, unitPrice, adjustments };
+}
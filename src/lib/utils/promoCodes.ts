@@ -0,0 +1,60 @@
+// File: frontend/src/lib/utils/promoCodes.ts
+import type { PromoCode } from '$lib/api/apiClient';
+
+/**
+ * Promo code discounts. Shared by checkout and the mock backend, so the total shown is the
+ * amount charged.
+ *
+ * A code takes its discount off the part of the order it applies to: the tickets, the
+ * merchandise or both. A fixed amount never takes that part below zero, and nothing
+ * is carried over to the other part. Gift vouchers bought with the order are never discounted.
+ */
+
+/** An order's totals before any discount. */
+export interface OrderTotals {
+    tickets: number;
+    merchandise: number;
+    giftVouchers: number;
+}
+
+/** An order's totals with a promo code applied. */
+export interface DiscountedTotals extends OrderTotals {
+    /** What the code takes off, 0 without a code or when it covers nothing in the order. */
+    discount: number;
+    total: number;
+}
+
+function roundToCents(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+/** Codes are matched case-insensitively and without surrounding spaces. */
+export function normalizePromoCode(code: string): string {
+    return code.trim().toUpperCase();
+}
+
+/** Whether a code can still be used: it has not expired and has uses left. */
+export function isPromoCodeUsable(promo: PromoCode, now: Date = new Date()): boolean {
+    if (promo.expires_at && Date.parse(promo.expires_at) <= now.getTime()) return false;
+    return promo.uses_remaining === undefined || promo.uses_remaining > 0;
+}
+
+/**
+ * Applies a promo code to an order's totals.
+ * @param promo The code, or null for none
+ * @param totals Ticket, merchandise and gift voucher totals before the discount
+ */
+export function applyPromoCode(promo: PromoCode | null, totals: OrderTotals): DiscountedTotals {
+    const undiscounted = roundToCents(totals.tickets + totals.merchandise + totals.giftVouchers);
+    if (!promo) return { ...totals, discount: 0, total: undiscounted };
+
+    const eligible =
+        (promo.applies_to !== 'merchandise' ? totals.tickets : 0) +
+        (promo.applies_to !== 'tickets' ? totals.merchandise : 0);
+    const discount =
+        promo.discount_type === 'percent'
+            ? roundToCents((eligible * Math.min(promo.value, 100)) / 100)
+            : roundToCents(Math.min(promo.value, eligible));
+
+    return { ...totals, discount, total: roundToCents(undiscounted - discount) };
+}
@@ -3,22 +3,18 @@
  * @purpose Creates and exports the Supabase client instance for client-side usage
  * 
  * @dependencies
- * - @supabase/supabase-js: Provides Supabase client functionality
+ * - @supabase/ssr: Browser client that keeps the session in cookies
  * - $env/static/public: Access to public environment variables
  *
  * @notes
  * - Uses PUBLIC_SUPABASE_URL and PUBLIC_SUPABASE_ANON_KEY from environment
  * - Singleton pattern ensures only one instance is created
+ * - The session is stored in cookies rather than localStorage, so `hooks.server.ts` can read it and
+ *   server-side API calls are made as the signed-in visitor
  */
 
-import { createClient } from '@supabase/supabase-js';
+import { createBrowserClient } from '@supabase/ssr';
 import { PUBLIC_SUPABASE_URL, PUBLIC_SUPABASE_ANON_KEY } from '$env/static/public';
 
 // Create and export the Supabase client
-export const supabase = createClient(PUBLIC_SUPABASE_URL, PUBLIC_SUPABASE_ANON_KEY, {
-    auth: {
-        persistSession: true,
-        autoRefreshToken: true,
-        detectSessionInUrl: true,
-    }
-});
\ No newline at end of file
+export const supabase = createBrowserClient(PUBLIC_SUPABASE_URL, PUBLIC_SUPABASE_ANON_KEY);
\ No newline at end of file
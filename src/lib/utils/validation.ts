@@ -10,4 +10,8 @@ export function sanitizeInput(input: string): string {
 export function validateEmail(email: string): boolean {
     const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
     return emailRegex.test(email) && email.length <= 254;
-}
\ No newline at end of file
+}
+/** The `next` path to return to after signing in, when it stays on this site; `fallback` otherwise. */
+export function safeRedirectPath(next: string | null, fallback: string): string {
+    return next?.startsWith('/') && !next.startsWith('//') && !next.startsWith('/\\') ? next : fallback;
+}
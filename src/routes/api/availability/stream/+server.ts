@@ -0,0 +1,79 @@
+// File: frontend/src/routes/api/availability/stream/+server.ts
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { handleApiError, type AvailabilityUpdate } from '$lib/api/apiClient';
+import { availabilityFeed } from '$lib/server/availabilityFeed';
+import { isDayKey } from '$lib/utils/museumTime';
+
+const ID_PATTERN = /^[\w-]+$/;
+/** Comment lines sent while nothing changes, so proxies do not close a quiet stream. */
+const HEARTBEAT_INTERVAL_MS = 25_000;
+/** How long browsers wait before reconnecting after the stream drops. */
+const RECONNECT_DELAY_MS = 5_000;
+
+/**
+ * Streams the capacity of one ticket type's time slots on one day as server-sent events.
+ * The first `availability` event is the current state; another follows every change.
+ */
+export const GET: RequestHandler = async ({ url, locals, fetch, request }) => {
+    const ticketTypeId = url.searchParams.get('ticket_type_id') ?? '';
+    const date = url.searchParams.get('date') ?? '';
+    if (!ID_PATTERN.test(ticketTypeId) || !isDayKey(date)) {
+        return json({ error: 'Giorno o tipo di biglietto non valido' }, { status: 400 });
+    }
+
+    let current: AvailabilityUpdate;
+    try {
+        const timeSlots = await locals.api.getTimeSlots(ticketTypeId, date, fetch, { forceRefresh: true });
+        current = { ticket_type_id: ticketTypeId, date, time_slots: timeSlots };
+    } catch (e) {
+        const err = handleApiError(e, 'Failed to load time slots');
+        return json({ error: err.details }, { status: err.status });
+    }
+
+    const encoder = new TextEncoder();
+    let stop = () => {};
+
+    const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+            let isOpen = true;
+            const send = (chunk: string) => {
+                if (isOpen) controller.enqueue(encoder.encode(chunk));
+            };
+            const sendUpdate = (update: AvailabilityUpdate) =>
+                send(`event: availability\ndata: ${JSON.stringify(update)}\n\n`);
+
+            send(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+            sendUpdate(current);
+
+            const unwatch = availabilityFeed.watch(ticketTypeId, date, sendUpdate);
+            const heartbeat = setInterval(() => send(': keep-alive\n\n'), HEARTBEAT_INTERVAL_MS);
+
+            stop = () => {
+                if (!isOpen) return;
+                isOpen = false;
+                clearInterval(heartbeat);
+                unwatch();
+            };
+
+            // The visitor left the page or lost the connection
+            request.signal.addEventListener('abort', () => {
+                if (!isOpen) return;
+                stop();
+                controller.close();
+            });
+        },
+        cancel() {
+            stop();
+        }
+    });
+
+    return new Response(stream, {
+        headers: {
+            'content-type': 'text/event-stream; charset=utf-8',
+            'cache-control': 'no-cache, no-transform',
+            // Stops nginx from buffering the events
+            'x-accel-buffering': 'no'
+        }
+    });
+};
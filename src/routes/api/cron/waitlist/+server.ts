@@ -0,0 +1,18 @@
+// File: frontend/src/routes/api/cron/waitlist/+server.ts
+import { error, json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { env } from '$env/dynamic/private';
+import { waitlistService } from '$lib/server/waitlistService';
+
+/**
+ * Offers freed places to people on a waitlist. Called every minute by the Vercel cron job in
+ * `vercel.json`, which sends `CRON_SECRET` as a bearer token; anyone else is refused.
+ */
+export const GET: RequestHandler = async ({ request }) => {
+    if (!env.CRON_SECRET || request.headers.get('authorization') !== `Bearer ${env.CRON_SECRET}`) {
+        throw error(401, 'Non autorizzato');
+    }
+
+    await waitlistService.checkWaitlists();
+    return json({ success: true });
+};
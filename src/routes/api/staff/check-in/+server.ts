@@ -0,0 +1,91 @@
+// File: frontend/src/routes/api/staff/check-in/+server.ts
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { ApiError, handleApiError } from '$lib/api/apiClient';
+import {
+    describeBooking,
+    loadBookingDetails,
+    type BookingDescription,
+    type BookingDetails
+} from '$lib/server/bookingConfirmation';
+import { getStaffUser } from '$lib/server/staffAuth';
+import { verifyTicketToken } from '$lib/server/ticketToken';
+import { getLocale } from '$lib/paraglide/runtime';
+import { museumToday } from '$lib/utils/museumTime';
+
+interface CheckInRequest {
+    token: string;
+    /** When the ticket was scanned, earlier than now for check-ins queued while offline. */
+    scanned_at?: string;
+}
+
+interface CheckInResponse {
+    /** `duplicate` when the booking had already been checked in: the visitor must not enter twice. */
+    status: 'checked-in' | 'duplicate';
+    checkedInAt: string | null;
+    ticket: BookingDescription;
+}
+
+/**
+ * Checks in the visitor holding a scanned ticket and marks their booking COMPLETED. Staff only.
+ * The ticket's signature is verified here, and the visit must be on the day the ticket is scanned;
+ * the backend refuses bookings that are not confirmed.
+ */
+export const POST: RequestHandler = async ({ request, fetch, locals }) => {
+    if (!(await getStaffUser(locals, fetch))) {
+        return json({ error: 'Accedi come personale del museo' }, { status: 401 });
+    }
+
+    const body: Partial<CheckInRequest> = await request.json().catch(() => ({}));
+    const claims = typeof body.token === 'string' ? await verifyTicketToken(body.token) : null;
+    if (!claims) {
+        return json({ error: 'Biglietto non valido' }, { status: 400 });
+    }
+    // Only a past scan time is believed: it decides the day the ticket must be for
+    const scannedAt =
+        body.scanned_at && Date.parse(body.scanned_at) <= Date.now() ? body.scanned_at : new Date().toISOString();
+
+    let details: BookingDetails;
+    try {
+        details = await loadBookingDetails(locals.api, claims.bookingId, fetch);
+    } catch (e) {
+        const err = handleApiError(e, 'Failed to load booking');
+        return json({ error: err.status === 404 ? 'Prenotazione non trovata' : err.details }, { status: err.status });
+    }
+    const ticket = describeBooking(details, getLocale());
+
+    if (details.booking.time_slot_id !== claims.timeSlotId) {
+        // A reschedule issues a new ticket; the old one names the slot the booking left
+        return json(
+            { error: 'Biglietto sostituito: la prenotazione è stata spostata ad un altro orario', ticket },
+            { status: 409 }
+        );
+    }
+
+    // The day of the scan rather than of the request: check-ins queued offline are sent later
+    const visitDay = details.booking.booking_date.slice(0, 10);
+    if (visitDay !== museumToday(new Date(scannedAt))) {
+        return json({ error: `Biglietto valido per un altro giorno: ${ticket.visitDate}`, ticket }, { status: 409 });
+    }
+
+    try {
+        const booking = await locals.api.checkInBooking(claims.bookingId, scannedAt, fetch);
+        const response: CheckInResponse = {
+            status: 'checked-in',
+            checkedInAt: booking.checked_in_at ?? scannedAt,
+            ticket
+        };
+        return json(response);
+    } catch (e) {
+        if (e instanceof ApiError && e.status === 409 && details.booking.status === 'COMPLETED') {
+            const response: CheckInResponse = {
+                status: 'duplicate',
+                checkedInAt: details.booking.checked_in_at ?? null,
+                ticket
+            };
+            return json(response);
+        }
+        const err = handleApiError(e, 'Failed to check in');
+        return json({ error: err.details, ticket }, { status: err.status });
+    }
+};
@@ -0,0 +1,6 @@
+// File: frontend/src/routes/api/v1/[...path]/+server.ts
+import type { RequestHandler } from './$types';
+import { proxyApiRequest } from '$lib/server/apiProxy';
+
+/** Forwards every method to the FastAPI backend; see `$lib/server/apiProxy` for the rules. */
+export const fallback: RequestHandler = (event) => proxyApiRequest(event);
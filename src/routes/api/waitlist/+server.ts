@@ -0,0 +1,73 @@
+// File: frontend/src/routes/api/waitlist/+server.ts
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { validateEmail } from '$lib/utils/validation';
+import { isDayKey } from '$lib/utils/museumTime';
+import { waitlistService, WaitlistError } from '$lib/server/waitlistService';
+
+interface JoinWaitlistRequest {
+    time_slot_id: string;
+    ticket_type_id: string;
+    date: string;
+    email: string;
+    quantity: number;
+    language?: string;
+}
+
+interface JoinWaitlistResponse {
+    success: boolean;
+    message: string;
+    position: number;
+}
+
+const MAX_QUANTITY = 20;
+const ID_PATTERN = /^[\w-]+$/;
+
+export const POST: RequestHandler = async ({ request }) => {
+    try {
+        const body: JoinWaitlistRequest = await request.json();
+
+        if (!body.email) {
+            return json({ error: 'Email è obbligatoria' }, { status: 400 });
+        }
+
+        const email = body.email.toLowerCase().trim();
+
+        if (!validateEmail(email)) {
+            return json({ error: 'Formato email non valido' }, { status: 400 });
+        }
+        if (!Number.isInteger(body.quantity) || body.quantity < 1 || body.quantity > MAX_QUANTITY) {
+            return json({ error: `Indica da 1 a ${MAX_QUANTITY} biglietti` }, { status: 400 });
+        }
+        if (!ID_PATTERN.test(body.time_slot_id ?? '') || !ID_PATTERN.test(body.ticket_type_id ?? '') || !isDayKey(body.date ?? '')) {
+            return json({ error: 'Orario non valido' }, { status: 400 });
+        }
+
+        const { position } = await waitlistService.join({
+            timeSlotId: body.time_slot_id,
+            ticketTypeId: body.ticket_type_id,
+            date: body.date,
+            email,
+            quantity: body.quantity,
+            language: body.language === 'en' ? 'en' : 'it'
+        });
+
+        const response: JoinWaitlistResponse = {
+            success: true,
+            message: 'Sei in lista d\'attesa! Ti scriveremo appena si liberano dei posti.',
+            position
+        };
+
+        return json(response, { status: 201 });
+
+    } catch (err) {
+        if (err instanceof WaitlistError) {
+            return json({ error: err.message }, { status: err.status });
+        }
+        console.error('Waitlist signup error:', err);
+        return json(
+            { error: 'Non è stato possibile iscriverti alla lista d\'attesa. Riprova più tardi.' },
+            { status: 500 }
+        );
+    }
+};
@@ -0,0 +1,42 @@
+// File: frontend/src/routes/api/webhooks/stripe/+server.ts
+import { error, json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { env } from '$env/dynamic/private';
+import { logger } from '$lib/server/logger';
+import { deliverOrderForPaymentIntent } from '$lib/server/orderDelivery';
+import { verifyStripeEvent } from '$lib/server/stripeWebhook';
+
+/**
+ * Receives Stripe's payment events. When a payment intent succeeds, the emails of the order it paid
+ * are sent (see `orderDelivery.ts`). Answering with an error makes Stripe retry the delivery later,
+ * so failures that a retry can fix are reported as such; other events are acknowledged and ignored.
+ */
+export const POST: RequestHandler = async ({ request }) => {
+    const event = verifyStripeEvent(
+        await request.text(),
+        request.headers.get('stripe-signature'),
+        env.STRIPE_WEBHOOK_SECRET ?? ''
+    );
+    if (!event) {
+        throw error(400, 'Firma del webhook non valida');
+    }
+
+    if (event.type === 'payment_intent.succeeded') {
+        const paymentIntentId = event.data.object.id;
+        let delivered = false;
+        try {
+            delivered = await deliverOrderForPaymentIntent(paymentIntentId);
+        } catch (e) {
+            // E.g. the backend has not recorded the order yet
+            logger.warn('Paid order not delivered', {
+                paymentIntentId,
+                error: e instanceof Error ? e.message : String(e)
+            });
+        }
+        if (!delivered) {
+            throw error(503, 'Email non inviate: riprovare più tardi');
+        }
+    }
+
+    return json({ received: true });
+};
@@ -0,0 +1,51 @@
+/**
+ * @file +page.server.ts (Booking Lookup Page)
+ * @description Server-side logic for finding a booking by email and booking reference.
+ * - Initializes the lookup form using Superforms.
+ * - On a match, redirects to the booking's page through its signed link.
+ *
+ * @dependencies
+ * - @sveltejs/kit: For `fail` and `redirect`.
+ * - sveltekit-superforms: For form management and validation.
+ * - $lib/server/bookingAccess: Signs the link to the booking's page.
+ * - ./schema: Zod schema for form validation.
+ */
+import { fail, redirect } from '@sveltejs/kit';
+import { message, superValidate } from 'sveltekit-superforms';
+import { zod } from 'sveltekit-superforms/adapters';
+import { ApiError } from '$lib/api/apiClient';
+import { manageBookingPath } from '$lib/server/bookingAccess';
+import { lookupSchema } from './schema';
+import type { Actions, PageServerLoad } from './$types';
+
+export const load: PageServerLoad = async () => {
+    return {
+        form: await superValidate(zod(lookupSchema))
+    };
+};
+
+export const actions: Actions = {
+    default: async ({ request, fetch, locals }) => {
+        const form = await superValidate(request, zod(lookupSchema));
+        if (!form.valid) {
+            return fail(400, { form });
+        }
+
+        let bookingId: string;
+        try {
+            const booking = await locals.api.lookupBooking(form.data.reference, form.data.email, fetch);
+            bookingId = booking.id;
+        } catch (e) {
+            if (e instanceof ApiError && e.status === 404) {
+                return message(form, 'Nessuna prenotazione trovata con questo riferimento e questa email.', {
+                    status: 404
+                });
+            }
+            console.error('Booking lookup error:', e);
+            return message(form, 'Impossibile cercare la prenotazione. Riprova più tardi.', { status: 500 });
+        }
+
+        // Outside the try: SvelteKit redirects are thrown
+        throw redirect(303, manageBookingPath(bookingId));
+    }
+};
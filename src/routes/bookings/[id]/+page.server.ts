@@ -0,0 +1,121 @@
+/**
+ * @file +page.server.ts (Manage Booking Page)
+ * @purpose Loads one booking for its visitor and handles self-service cancellation and rescheduling.
+ *
+ * @dependencies
+ * - @sveltejs/kit: For `error`, `fail` and the route types.
+ * - $lib/api/apiClient: Error handling for backend calls (made through `locals.api`).
+ * - $lib/server/bookingAccess: Checks the signed token from the booking link.
+ * - $lib/server/bookingConfirmation: Loads the booking with its slot and ticket types, and its calendar links.
+ * - $lib/paraglide/runtime: The visitor's language, used for the calendar event.
+ * - $lib/utils/bookingPolicy: The window in which visitors may change a booking.
+ * - $lib/utils/museumTime: Day keys on the museum's calendar.
+ *
+ * @notes
+ * - Every request needs the booking's `token` in the URL. Forms post to `?/cancel&token=...`, so the page
+ *   loaded after an action (with or without JavaScript) keeps it.
+ * - Rescheduling offers the slots of the booking's ticket type on `?date=` (the booked day by default).
+ *   The backend checks the new slot's capacity again, so a slot filling up in between fails with 409.
+ */
+import { error, fail } from '@sveltejs/kit';
+import { ApiError, handleApiError, type TimeSlot } from '$lib/api/apiClient';
+import { ticketPath, verifyBookingAccess } from '$lib/server/bookingAccess';
+import { calendarLinks, hasTicket, loadBookingDetails } from '$lib/server/bookingConfirmation';
+import { canChangeBooking, changeDeadline } from '$lib/utils/bookingPolicy';
+import { isDayKey, museumToday } from '$lib/utils/museumTime';
+import { getLocale } from '$lib/paraglide/runtime';
+import type { Actions, PageServerLoad } from './$types';
+
+const INVALID_LINK_MESSAGE =
+    'Questo link non è valido. Cerca la prenotazione con la tua email e il riferimento della prenotazione.';
+
+export const load: PageServerLoad = async ({ params, url, fetch, locals }) => {
+    const token = url.searchParams.get('token');
+    if (!verifyBookingAccess(params.id, token)) {
+        throw error(403, INVALID_LINK_MESSAGE);
+    }
+
+    try {
+        const details = await loadBookingDetails(locals.api, params.id, fetch);
+        const { booking, timeSlot, ticketTypes } = details;
+        const ticketTypeId = timeSlot?.ticket_type_id;
+        const canChange = timeSlot !== null && canChangeBooking(booking.status, timeSlot.start_time);
+
+        const requestedDate = url.searchParams.get('date');
+        const bookedDate = booking.booking_date.slice(0, 10);
+        const rescheduleDate =
+            requestedDate && isDayKey(requestedDate) && requestedDate >= museumToday() ? requestedDate : bookedDate;
+        let rescheduleSlots: TimeSlot[] = [];
+        if (canChange && ticketTypeId) {
+            rescheduleSlots = (await locals.api.getTimeSlots(ticketTypeId, rescheduleDate, fetch)).filter(
+                (slot) => slot.id !== booking.time_slot_id && Date.parse(slot.start_time) > Date.now()
+            );
+        }
+
+        return {
+            booking,
+            ticketTypes,
+            timeSlot,
+            token: token!,
+            canChange,
+            changeDeadline: timeSlot ? changeDeadline(timeSlot.start_time).toISOString() : null,
+            rescheduleDate,
+            rescheduleSlots,
+            ticketUrl: hasTicket(booking) ? ticketPath(booking.id) : null,
+            calendar: calendarLinks(details, getLocale())
+        };
+    } catch (e) {
+        const err = handleApiError(e, 'Failed to load booking');
+        if (err.status === 404) {
+            throw error(404, 'Prenotazione non trovata');
+        }
+        throw error(err.status, err.details);
+    }
+};
+
+export const actions: Actions = {
+    cancel: async ({ params, url, fetch, locals }) => {
+        const token = url.searchParams.get('token') ?? '';
+        if (!verifyBookingAccess(params.id, token)) {
+            return fail(403, { error: INVALID_LINK_MESSAGE });
+        }
+
+        try {
+            await locals.api.cancelBooking(params.id, token, fetch);
+            return { success: 'La prenotazione è stata annullata.' };
+        } catch (e) {
+            return changeFailed(e, 'La prenotazione non può più essere annullata online.');
+        }
+    },
+
+    reschedule: async ({ params, url, request, fetch, locals }) => {
+        const token = url.searchParams.get('token') ?? '';
+        const timeSlotId = String((await request.formData()).get('time_slot_id') ?? '');
+        if (!verifyBookingAccess(params.id, token)) {
+            return fail(403, { error: INVALID_LINK_MESSAGE });
+        }
+        if (!timeSlotId) {
+            return fail(400, { error: 'Scegli il nuovo orario della visita.' });
+        }
+
+        try {
+            await locals.api.rescheduleBooking(params.id, timeSlotId, token, fetch);
+            return { success: 'La visita è stata spostata al nuovo orario.' };
+        } catch (e) {
+            return changeFailed(
+                e,
+                'Non è stato possibile spostare la visita: la prenotazione non è più modificabile oppure il nuovo orario non ha abbastanza posti liberi.'
+            );
+        }
+    }
+};
+
+/** Turns a rejected change into a form failure; `conflictMessage` explains a 409 from the backend. */
+function changeFailed(e: unknown, conflictMessage: string) {
+    if (e instanceof ApiError && e.status === 409) {
+        return fail(409, { error: conflictMessage });
+    }
+    const err = handleApiError(e, 'Booking change failed');
+    console.error('Booking change error:', err);
+    return fail(err.status, { error: 'Si è verificato un errore. Riprova più tardi.' });
+}
@@ -0,0 +1,45 @@
+// File: frontend/src/routes/bookings/[id]/calendar/+server.ts
+import { error } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { handleApiError } from '$lib/api/apiClient';
+import { verifyBookingAccess } from '$lib/server/bookingAccess';
+import {
+    calendarFileName,
+    createVisitEvent,
+    hasTicket,
+    loadBookingDetails
+} from '$lib/server/bookingConfirmation';
+import { createVisitIcs } from '$lib/server/visitCalendar';
+import { getLocale } from '$lib/paraglide/runtime';
+
+/** Downloads a confirmed visit as an iCalendar file. Needs the booking's signed `token`, like its page. */
+export const GET: RequestHandler = async ({ params, url, fetch, locals }) => {
+    if (!verifyBookingAccess(params.id, url.searchParams.get('token'))) {
+        throw error(403, 'Questo link non è valido.');
+    }
+
+    let details;
+    try {
+        details = await loadBookingDetails(locals.api, params.id, fetch);
+    } catch (e) {
+        const err = handleApiError(e, 'Failed to load booking');
+        throw error(err.status, err.status === 404 ? 'Prenotazione non trovata' : err.details);
+    }
+    if (!hasTicket(details.booking)) {
+        throw error(409, 'Il calendario è disponibile solo per le prenotazioni confermate.');
+    }
+
+    const event = createVisitEvent(details, getLocale());
+    if (!event) {
+        throw error(404, 'Orario della visita non trovato');
+    }
+
+    return new Response(createVisitIcs(event), {
+        headers: {
+            'Content-Type': 'text/calendar; charset=utf-8',
+            'Content-Disposition': `attachment; filename="${calendarFileName(details.booking)}"`,
+            // The event links to the booking page with its token: keep it out of shared caches
+            'Cache-Control': 'private, no-store'
+        }
+    });
+};
@@ -0,0 +1,35 @@
+// File: frontend/src/routes/bookings/[id]/ticket/+server.ts
+import { error } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { handleApiError } from '$lib/api/apiClient';
+import { verifyBookingAccess } from '$lib/server/bookingAccess';
+import { createTicketPdf, hasTicket, loadBookingDetails, ticketFileName } from '$lib/server/bookingConfirmation';
+import { getLocale } from '$lib/paraglide/runtime';
+
+/** Downloads a confirmed booking's PDF ticket. Needs the booking's signed `token`, like its page. */
+export const GET: RequestHandler = async ({ params, url, fetch, locals }) => {
+    if (!verifyBookingAccess(params.id, url.searchParams.get('token'))) {
+        throw error(403, 'Questo link non è valido.');
+    }
+
+    let details;
+    try {
+        details = await loadBookingDetails(locals.api, params.id, fetch);
+    } catch (e) {
+        const err = handleApiError(e, 'Failed to load booking');
+        throw error(err.status, err.status === 404 ? 'Prenotazione non trovata' : err.details);
+    }
+    if (!hasTicket(details.booking)) {
+        throw error(409, 'Il biglietto è disponibile solo per le prenotazioni confermate.');
+    }
+
+    const pdf = await createTicketPdf(details, getLocale());
+    return new Response(pdf, {
+        headers: {
+            'Content-Type': 'application/pdf',
+            'Content-Disposition': `attachment; filename="${ticketFileName(details.booking)}"`,
+            // The ticket carries a bearer token: keep it out of shared caches
+            'Cache-Control': 'private, no-store'
+        }
+    });
+};
@@ -0,0 +1,19 @@
+/**
+* @file schema.ts (for /bookings)
+* @description Zod schema for validating the booking lookup form.
+*
+* @dependencies
+* - zod: For schema definition and validation.
+*/
+import { z } from 'zod';
+
+
+export const lookupSchema = z.object({
+    email: z.string().trim().email({ message: 'Please enter a valid email address.' }),
+    reference: z
+        .string()
+        .trim()
+        .regex(/^[0-9a-f]{8}$/i, { message: 'The booking reference has 8 letters and numbers, e.g. 3F9A1C2B.' })
+});
+
+export type LookupSchema = typeof lookupSchema;
@@ -0,0 +1,57 @@
+/**
+ * @file +page.server.ts (Payment Success Page)
+ * @purpose Loads the order and booking paid for by the payment intent in the URL.
+ *
+ * @dependencies
+ * - @sveltejs/kit: For the `error` helper and `PageServerLoad` type.
+ * - $lib/api/apiClient: Error handling for backend calls (made through `locals.api`).
+ * - $lib/server/bookingAccess: Signed links to the booking's page and ticket.
+ * - $lib/server/bookingConfirmation: Booking details and calendar links.
+ * - $lib/server/orderDelivery: Sends the order's emails if the payment webhook has not yet.
+ * - $lib/paraglide/runtime: The visitor's language, used for the email and calendar event.
+ *
+ * @notes
+ * - Stripe (and the simulated payment form) return here with `?payment_intent=...`.
+ * - The Stripe webhook sends the confirmation email with the PDF ticket, and the gift vouchers bought
+ *   with the order, once the payment succeeds. This page sends them too, for payments Stripe never
+ *   reports and in case the webhook is late; each email is sent only once either way.
+ * - Orders paid in full with a gift voucher come here too, with the id `payWithGiftVoucher` returned.
+ */
+import { error } from '@sveltejs/kit';
+import { handleApiError } from '$lib/api/apiClient';
+import { manageBookingPath, ticketPath } from '$lib/server/bookingAccess';
+import { calendarLinks, hasTicket, loadBookingDetails } from '$lib/server/bookingConfirmation';
+import { deliverPaidOrder } from '$lib/server/orderDelivery';
+import { getLocale } from '$lib/paraglide/runtime';
+import type { PageServerLoad } from './$types';
+
+export const load: PageServerLoad = async ({ url, fetch, locals }) => {
+    const paymentIntentId = url.searchParams.get('payment_intent');
+    if (!paymentIntentId) {
+        throw error(400, 'Nessun pagamento trovato.');
+    }
+
+    try {
+        const order = await locals.api.getOrderByPaymentIntent(paymentIntentId, fetch);
+        const details = order.booking_id ? await loadBookingDetails(locals.api, order.booking_id, fetch) : null;
+
+        await deliverPaidOrder(order, details, getLocale());
+
+        return {
+            order,
+            booking: details?.booking ?? null,
+            timeSlot: details?.timeSlot ?? null,
+            ticketTypes: details?.ticketTypes ?? [],
+            manageUrl: details ? manageBookingPath(details.booking.id) : null,
+            ticketUrl: details && hasTicket(details.booking) ? ticketPath(details.booking.id) : null,
+            calendar: details ? calendarLinks(details, getLocale()) : null,
+            simulation: paymentIntentId.startsWith('pi_sim_')
+        };
+    } catch (e) {
+        const err = handleApiError(e, 'Failed to load order');
+        if (err.status === 404) {
+            throw error(404, 'Ordine non trovato');
+        }
+        throw error(err.status, err.details);
+    }
+};
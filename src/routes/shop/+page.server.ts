@@ -5,7 +5,8 @@
          * @dependencies
          * - @sveltejs/kit: For PageServerLoad type and error handling.
          * - $lib/api/apiClient: To fetch merchandise data and handle API errors.
-         * - $lib/utils/mockData: Fallback static data when backend is unavailable.
+         * - $lib/api/fallbacks: Connection state derived from degraded (offline fallback) responses.
+         * - $lib/data/mockMerchandise: Sample data when the backend answers with an error.
          *
          * @notes
          * - Gracefully handles backend connection failures with static fallback data
@@ -14,6 +15,7 @@
          */
 
 import { apiClient, handleApiError } from '$lib/api/apiClient';
+import { getConnectionState, isDegraded } from '$lib/api/fallbacks';
 import { getMockMerchandise } from '$lib/data/mockMerchandise';
 import type { PageServerLoad } from './$types';
 
@@ -27,38 +29,23 @@ import type { PageServerLoad } from './$types';
 export const load: PageServerLoad = async ({ fetch }) => {
     try {
         console.log('🔄 Loading merchandise data...');
+        // Network failures are answered by the client's registered fallback (see $lib/api/fallbacks)
         const merchandise = await apiClient.getMerchandise(fetch);
-        console.log(`✅ Successfully loaded ${merchandise.length} merchandise items`);
+        const offline = isDegraded(merchandise);
+        console.log(`✅ Loaded ${merchandise.length} merchandise items${offline ? ' (offline fallback)' : ''}`);
 
         return {
             merchandise,
-            title: 'Shop - Zungri Museum',
-            metaDescription: 'Browse official merchandise from the Zungri Museum. Find unique souvenirs and gifts inspired by our collection.',
-            isOnline: true,
+            title: offline ? 'Shop - Zungri Museum (Offline Mode)' : 'Shop - Zungri Museum',
+            metaDescription: offline
+                ? 'Browse official merchandise from the Zungri Museum. Currently showing sample items - full catalog available when online.'
+                : 'Browse official merchandise from the Zungri Museum. Find unique souvenirs and gifts inspired by our collection.',
+            ...getConnectionState(merchandise),
+            connectionError: offline,
             csrfToken: generateCSRFToken()
         };
     } catch (e) {
-        console.error('❌ Backend connection failed, using fallback data:', e);
-
-        // Check if it's a connection error (ECONNREFUSED, network issues, etc.)
-        const isConnectionError = isNetworkError(e);
-
-        if (isConnectionError) {
-            console.log('🔄 Loading fallback merchandise data for offline mode...');
-            const mockMerchandise = getMockMerchandise();
-            console.log(`📦 Loaded ${mockMerchandise.length} mock merchandise items`);
-
-            return {
-                merchandise: mockMerchandise,
-                title: 'Shop - Zungri Museum (Offline Mode)',
-                metaDescription: 'Browse official merchandise from the Zungri Museum. Currently showing sample items - full catalog available when online.',
-                isOnline: false,
-                connectionError: true,
-                csrfToken: generateCSRFToken()
-            };
-        }
-
-        // For non-connection errors, still try to provide a basic experience
+        // Non-connection errors (invalid responses, 5xx): still provide a basic experience
         console.error('❌ Non-connection API error, providing minimal fallback');
         const err = handleApiError(e, 'Failed to load merchandise');
 
@@ -74,34 +61,6 @@ export const load: PageServerLoad = async ({ fetch }) => {
     }
 };
 
-/**
- * Determines if an error is related to network connectivity issues.
- * 
- * @param {unknown} error - The error to analyze.
- * @returns {boolean} True if the error indicates a network/connection problem.
- */
-function isNetworkError(error: unknown): boolean {
-    if (!error || typeof error !== 'object') return false;
-
-    const errorStr = error.toString().toLowerCase();
-    const errorMessage = 'message' in error ? String(error.message).toLowerCase() : '';
-
-    // Check for common network error patterns
-    const networkErrorPatterns = [
-        'econnrefused',
-        'enotfound',
-        'etimedout',
-        'network error',
-        'connection refused',
-        'fetch failed',
-        'aggregateerror'
-    ];
-
-    return networkErrorPatterns.some(pattern =>
-        errorStr.includes(pattern) || errorMessage.includes(pattern)
-    );
-}
-
 /**
  * Generates a simple CSRF token for forms.
  * In production, this should use a more robust implementation.
@@ -0,0 +1,24 @@
+/**
+ * @file +layout.server.ts (Staff Area)
+ * @purpose Keeps staff tooling behind a staff sign-in.
+ *
+ * @dependencies
+ * - @sveltejs/kit: For the `redirect` helper and `LayoutServerLoad` type.
+ * - $lib/server/staffAuth: Asks the backend who is signed in.
+ *
+ * @notes
+ * - Visitors without a session are sent to the login page, which brings them back here afterwards.
+ * - Endpoints used by staff pages check access again: this layout only guards the pages.
+ */
+import { redirect } from '@sveltejs/kit';
+import { getStaffUser } from '$lib/server/staffAuth';
+import type { LayoutServerLoad } from './$types';
+
+export const load: LayoutServerLoad = async ({ locals, fetch, url }) => {
+    const staffUser = await getStaffUser(locals, fetch);
+    if (!staffUser) {
+        throw redirect(303, `/auth/login?next=${encodeURIComponent(url.pathname)}`);
+    }
+
+    return { staffUser };
+};
@@ -0,0 +1,13 @@
+// File: frontend/src/routes/waitlist/claim/[token]/+server.ts
+import { error, redirect } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { waitlistService } from '$lib/server/waitlistService';
+
+/** Opens the booking wizard pre-filled with a waitlist offer, while its claim link is valid. */
+export const GET: RequestHandler = async ({ params }) => {
+    const bookingUrl = await waitlistService.claim(params.token);
+    if (!bookingUrl) {
+        throw error(410, 'Questo link è scaduto o non è valido: i posti sono stati offerti alla persona successiva in lista.');
+    }
+    throw redirect(303, bookingUrl);
+};
@@ -7,19 +7,25 @@
  * - @sveltejs/kit/vite: SvelteKit integration
  * - @inlang/paraglide-vite: Paraglide i18n build plugin
  * - vite: Core build tool
+ * - vitest: Unit tests, configured under `test`
  *
  * @notes
  * - Paraglide generates files in src/lib/paraglide based on project.inlang
  * - Optimized for development with HMR and external dependencies
  * - Configured for museum-specific requirements (maps, leaflet)
  * - Proxy configuration for FastAPI backend communication
+ * - The proxy is disabled when MOCK_API=true so the in-process mock backend answers /api/v1
  */
 import tailwindcss from '@tailwindcss/vite';
 import { sveltekit } from '@sveltejs/kit/vite';
 import { paraglideVitePlugin } from '@inlang/paraglide-js';
-import { defineConfig } from 'vite';
+import { loadEnv } from 'vite';
+import { defineConfig } from 'vitest/config';
 import path from 'path';
 
+// The proxy only exists on the dev server, so read the flag from the development env files
+const useMockApi = loadEnv('development', process.cwd(), 'MOCK_').MOCK_API === 'true';
+
 export default defineConfig({
 	plugins: [
 		tailwindcss(),
@@ -45,8 +51,8 @@ export default defineConfig({
 		port: 5173, // Default port; change if needed
 		strictPort: true, // Fail if the port is already in use
 
-		// Fixed proxy configuration for FastAPI backend
-		proxy: {
+		// Fixed proxy configuration for FastAPI backend (off when the mock backend is enabled)
+		proxy: useMockApi ? undefined : {
 			// Match all API routes including /api/v1/
 			'^/api/v1': {
 				target: process.env.VITE_BACKEND_URL || 'http://localhost:8000',
@@ -101,6 +107,11 @@ export default defineConfig({
 		}
 	},
 
+	test: {
+		include: ['src/**/*.{test,spec}.{js,ts}'],
+		environment: 'node'
+	},
+
 	// Environment variable configuration
 	define: {
 		// Make sure environment variables are available at build time